@@ -0,0 +1,95 @@
+/**
+ * Catalog snapshots
+ *
+ * Run: npm run catalog:snapshot
+ *        Save the current catalog to <history dir>/<version>.json. Part
+ *        of every release; the directory is CATALOG_HISTORY_DIR, or
+ *        data/catalog-history (not committed) when that's unset
+ *      npm run catalog:diff -- <from-version> [<to-version>]
+ *        What changed between two versions (default: the current catalog)
+ *      npm run catalog:diff -- --since 2025-01-01
+ *        What changed since the version that was current on that date
+ */
+
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { formatDataFileError, loadAllBenefitSources } from '../src/lib/data-loader';
+import {
+  catalogHistoryDir,
+  createCatalogSnapshot,
+  diffCatalogs,
+  FileCatalogHistory,
+  type CatalogSnapshot,
+} from '../src/lib/versioning';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const DATA_DIR = join(ROOT, 'data/benefits');
+const HISTORY_DIR = catalogHistoryDir(ROOT);
+
+async function currentSnapshot(): Promise<CatalogSnapshot> {
+  const { sources, errors } = await loadAllBenefitSources(DATA_DIR, ROOT);
+  if (errors.length) {
+    for (const error of errors) console.error(`✗ ${formatDataFileError(error)}`);
+    throw new Error('Fix invalid benefit records first (npm run validate)');
+  }
+  return createCatalogSnapshot(sources.flatMap(s => s.benefits));
+}
+
+async function resolveSnapshot(history: FileCatalogHistory, version: string): Promise<CatalogSnapshot> {
+  const snapshot = /^[0-9a-f]+$/.test(version) ? await history.load(version) : null;
+  if (!snapshot) throw new Error(`No catalog version "${version}" in ${HISTORY_DIR}`);
+  return snapshot;
+}
+
+async function snapshot(history: FileCatalogHistory) {
+  const current = await currentSnapshot();
+  const saved = await history.save(current);
+  console.log(saved
+    ? `✓ Saved catalog version ${current.version} (${current.benefits.length} benefits)`
+    : `Catalog version ${current.version} is already saved`);
+}
+
+async function diff(history: FileCatalogHistory, args: string[]) {
+  let from: CatalogSnapshot | null;
+  let to: CatalogSnapshot;
+
+  if (args[0] === '--since') {
+    const since = new Date(`${args[1]}T23:59:59.999Z`);
+    if (isNaN(since.getTime())) throw new Error('--since needs a YYYY-MM-DD date');
+    from = await history.at(since);
+    if (!from) throw new Error(`No catalog version saved on or before ${args[1]}`);
+    to = await currentSnapshot();
+  } else if (args[0]) {
+    from = await resolveSnapshot(history, args[0]);
+    to = args[1] ? await resolveSnapshot(history, args[1]) : await currentSnapshot();
+  } else {
+    throw new Error('Usage: npm run catalog:diff -- <from-version> [<to-version>] | --since YYYY-MM-DD');
+  }
+
+  const result = diffCatalogs(from, to);
+  console.log(`Catalog ${result.from} → ${result.to}`);
+  if (!result.added.length && !result.removed.length && !result.changed.length) {
+    console.log('No changes');
+    return;
+  }
+  for (const id of result.added) console.log(`+ ${id}`);
+  for (const id of result.removed) console.log(`- ${id}`);
+  for (const change of result.changed) {
+    console.log(`~ ${change.id}`);
+    for (const field of change.fields) console.log(`    ${field}`);
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const history = new FileCatalogHistory(HISTORY_DIR);
+
+  if (command === 'snapshot') return snapshot(history);
+  if (command === 'diff') return diff(history, args);
+  throw new Error(`Unknown command "${command ?? ''}" (expected snapshot or diff)`);
+}
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
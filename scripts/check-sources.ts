@@ -0,0 +1,59 @@
+/**
+ * Check downloaded source pages for changes
+ *
+ * Run: npm run sources:check -- <incoming-dir> [--store <dir>]
+ * Try: npm run sources:check -- fixtures/source-pages/2025-01
+ *      npm run sources:check -- fixtures/source-pages/2025-06
+ *
+ * <incoming-dir> holds HTML files and a pages.json manifest (see
+ * src/lib/source-watch/check.ts). Snapshots and review items are kept
+ * in the store directory, .source-watch/ by default.
+ */
+
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { formatDataFileError, loadAllBenefitSources } from '../src/lib/data-loader';
+import { checkIncomingPages } from '../src/lib/source-watch/check';
+import { FileReviewQueue } from '../src/lib/source-watch/store';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const DATA_DIR = join(ROOT, 'data/benefits');
+
+async function main() {
+  const args = process.argv.slice(2);
+  const storeFlag = args.indexOf('--store');
+  const storeDir = storeFlag === -1 ? join(ROOT, '.source-watch') : resolve(args[storeFlag + 1] ?? '');
+  const incomingDir = args.find((arg, i) =>
+    !arg.startsWith('--') && (storeFlag === -1 || i !== storeFlag + 1)
+  );
+
+  if (!incomingDir) {
+    console.error('Usage: npm run sources:check -- <incoming-dir> [--store <dir>]');
+    process.exit(1);
+  }
+
+  const { sources, errors } = await loadAllBenefitSources(DATA_DIR, ROOT);
+  for (const error of errors) console.error(`✗ ${formatDataFileError(error)}`);
+  const benefits = sources.flatMap(s => s.benefits);
+
+  const results = await checkIncomingPages(resolve(incomingDir), benefits, storeDir);
+
+  for (const result of results) {
+    const cited = result.benefitIds.length ? result.benefitIds.join(', ') : 'no benefits';
+    console.log(`${result.status.padEnd(9)} ${result.url} (${cited})`);
+
+    if (result.review) {
+      for (const line of result.review.removed) console.log(`  - ${line}`);
+      for (const line of result.review.added) console.log(`  + ${line}`);
+      console.log(`  → review ${result.review.id}`);
+    }
+  }
+
+  const open = await new FileReviewQueue(storeDir).list('open');
+  console.log(`\n${open.length} open review item(s) in ${storeDir}`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
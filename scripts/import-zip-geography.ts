@@ -0,0 +1,275 @@
+/**
+ * Import the ZIP geography dataset
+ *
+ * Run: npm run geo:import -- --version 2026-Q4.1 [--hud <ZIP_COUNTY.csv>]
+ *
+ * Writes src/data/geo/zip-crosswalk.ts. Every ZIP comes from the GeoNames
+ * US postal code file (city, county, center), and ZIPs whose ZIP Code
+ * Tabulation Area crosses a county line get the other counties from the
+ * Census 2010 ZCTA-to-county relationship file. Both ship as npm packages
+ * (devDependencies), so an import needs no downloads.
+ *
+ * --hud takes HUD's USPS ZIP-COUNTY crosswalk, saved as CSV, and uses its
+ * counties and preferred cities instead, primary county by share of
+ * residential addresses. GeoNames then only supplies coordinates.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { US_STATES } from '../src/data/geo/states';
+import type { ZipDataset, ZipRecord } from '../src/data/geo/zip-codes';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const OUTPUT = join(ROOT, 'src/data/geo/zip-crosswalk.ts');
+
+interface ZipRow {
+  city: string;
+  stateCode: string;
+  counties: string[];            // FIPS, primary first
+  center?: [number, number];
+}
+
+function packageFile(name: string, file: string): string {
+  return join(ROOT, 'node_modules', name, file);
+}
+
+/**
+ * County FIPS -> name, from the Census county list in fips-county-codes
+ */
+function readCountyNames(): Map<string, string> {
+  const names = new Map<string, string>();
+  const lines = readFileSync(packageFile('fips-county-codes', 'data/fips-counties.csv'), 'utf8').trim().split('\n');
+  for (const line of lines.slice(1)) {
+    const [, stateFips, countyFips, name] = parseCsvLine(line);
+    names.set(`${stateFips}${countyFips}`, name);
+  }
+  return names;
+}
+
+/**
+ * GeoNames US postal codes: one county and a center per ZIP, and the
+ * GeoNames name of each county
+ */
+function readGeoNames(): { rows: Map<string, ZipRow>; countyNames: Map<string, string> } {
+  const rows = new Map<string, ZipRow>();
+  const countyNames = new Map<string, string>();
+  const lines = readFileSync(packageFile('zipcodes-us', 'data/US.txt'), 'utf8').trim().split('\n');
+
+  for (const line of lines) {
+    const [, zip, city, , stateCode, county, countyCode, , , latitude, longitude] = line.split('\t');
+    const state = US_STATES[stateCode];
+    if (!state || !/^\d{3}$/.test(countyCode)) continue;   // Military and unassigned ZIPs
+
+    const fips = `${state.fips}${countyCode}`;
+    countyNames.set(fips, county);
+    rows.set(zip, {
+      city,
+      stateCode,
+      counties: [fips],
+      center: [round(Number(latitude)), round(Number(longitude))],
+    });
+  }
+  return { rows, countyNames };
+}
+
+/**
+ * Census 2010 ZCTA -> counties, from us-zcta-counties (county names per
+ * state, mapped back to FIPS)
+ */
+function readZctaCounties(countyNames: Map<string, string>): { counties: Map<string, string[]>; unmatched: string[] } {
+  const byState: Record<string, { counties: Record<string, { zip_codes: string[] }> }> =
+    JSON.parse(readFileSync(packageFile('us-zcta-counties', 'state_county_zip.json'), 'utf8'));
+
+  // The county list drops accents (Dona Ana County), the Census file keeps them
+  const key = (stateFips: string, name: string) =>
+    `${stateFips}:${name.normalize('NFD').replace(/[\u0300-\u036f]/g, '')}`;
+  const fipsByName = new Map<string, string>();
+  for (const [fips, name] of countyNames) fipsByName.set(key(fips.slice(0, 2), name), fips);
+
+  const counties = new Map<string, string[]>();
+  const unmatched: string[] = [];
+  for (const [stateCode, { counties: stateCounties }] of Object.entries(byState)) {
+    const state = US_STATES[stateCode];
+    if (!state) continue;
+    for (const [name, { zip_codes }] of Object.entries(stateCounties)) {
+      const fips = fipsByName.get(key(state.fips, name));
+      if (!fips) {
+        unmatched.push(`${name}, ${stateCode}`);
+        continue;
+      }
+      for (const zip of zip_codes) counties.set(zip, [...counties.get(zip) ?? [], fips]);
+    }
+  }
+  return { counties, unmatched };
+}
+
+/**
+ * HUD USPS ZIP-COUNTY crosswalk: counties by residential share, and the
+ * USPS preferred city
+ */
+function readHudCrosswalk(file: string): Map<string, ZipRow> {
+  const [header, ...lines] = readFileSync(file, 'utf8').trim().split(/\r?\n/);
+  const columns = parseCsvLine(header).map(c => c.trim().toUpperCase());
+  const col = (name: string) => {
+    const i = columns.indexOf(name);
+    if (i === -1) throw new Error(`${file}: no ${name} column`);
+    return i;
+  };
+  const [zipCol, countyCol, cityCol, stateCol, ratioCol] =
+    ['ZIP', 'COUNTY', 'USPS_ZIP_PREF_CITY', 'USPS_ZIP_PREF_STATE', 'RES_RATIO'].map(col);
+
+  const shares = new Map<string, { city: string; stateCode: string; counties: [string, number][] }>();
+  for (const line of lines) {
+    const cells = parseCsvLine(line);
+    const zip = cells[zipCol].padStart(5, '0');
+    const stateCode = cells[stateCol];
+    if (!US_STATES[stateCode]) continue;
+    const entry = shares.get(zip) ?? { city: titleCase(cells[cityCol]), stateCode, counties: [] };
+    entry.counties.push([cells[countyCol].padStart(5, '0'), Number(cells[ratioCol])]);
+    shares.set(zip, entry);
+  }
+
+  const rows = new Map<string, ZipRow>();
+  for (const [zip, { city, stateCode, counties }] of shares) {
+    rows.set(zip, {
+      city,
+      stateCode,
+      counties: counties.sort((a, b) => b[1] - a[1]).map(([fips]) => fips),
+    });
+  }
+  return rows;
+}
+
+function parseArgs(args: string[]): { version: string; hud?: string } {
+  const value = (flag: string) => {
+    const i = args.indexOf(flag);
+    return i === -1 ? undefined : args[i + 1];
+  };
+  const version = value('--version');
+  if (!version) {
+    throw new Error('Usage: npm run geo:import -- --version <YYYY-Qn.n> [--hud <ZIP_COUNTY.csv>]');
+  }
+  const hud = value('--hud');
+  return { version, ...(hud ? { hud: resolve(hud) } : {}) };
+}
+
+function main() {
+  const { version, hud } = parseArgs(process.argv.slice(2));
+  const countyNames = readCountyNames();
+  const geoNames = readGeoNames();
+  let rows: Map<string, ZipRow>;
+  let source: string;
+
+  if (hud) {
+    rows = readHudCrosswalk(hud);
+    for (const [zip, row] of rows) {
+      const center = geoNames.rows.get(zip)?.center;
+      if (center) row.center = center;
+    }
+    source = 'HUD USPS ZIP Code Crosswalk Files (ZIP-COUNTY); centers from GeoNames (CC BY 4.0)';
+  } else {
+    const { counties: zctaCounties, unmatched } = readZctaCounties(countyNames);
+    if (unmatched.length) console.warn(`Census counties without a current FIPS code: ${unmatched.join('; ')}`);
+
+    rows = geoNames.rows;
+    for (const [zip, row] of rows) {
+      const primary = row.counties[0];
+      // Planning regions and renamed counties aren't in the 2010 county list
+      if (!countyNames.has(primary)) continue;
+      const others = (zctaCounties.get(zip) ?? []).filter(fips => fips !== primary);
+      row.counties.push(...others);
+    }
+    source = 'GeoNames US postal codes (CC BY 4.0), with multi-county ZIPs from the ' +
+      'U.S. Census Bureau 2010 ZCTA to County Relationship File';
+  }
+
+  const counties: Record<string, string> = {};
+  for (const row of rows.values()) {
+    for (const fips of row.counties) {
+      // Connecticut's planning regions are newer than the county list
+      counties[fips] ??= countyNames.get(fips) ?? `${geoNames.countyNames.get(fips)} Planning Region`;
+    }
+  }
+
+  const dataset: ZipDataset = {
+    version,
+    source,
+    counties: Object.fromEntries(Object.entries(counties).sort(([a], [b]) => a.localeCompare(b))),
+    zips: [...rows]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([zip, row]): ZipRecord => row.center
+        ? [zip, row.city, row.stateCode, row.counties, row.center]
+        : [zip, row.city, row.stateCode, row.counties]),
+  };
+
+  writeFileSync(OUTPUT, render(dataset));
+  const multi = dataset.zips.filter(([, , , fips]) => fips.length > 1).length;
+  console.log(`✓ Wrote ${dataset.zips.length} ZIPs (${multi} in more than one county) to ${OUTPUT}`);
+}
+
+function render(dataset: ZipDataset): string {
+  const lines = [
+    '// Generated by scripts/import-zip-geography.ts (npm run geo:import). Don\'t edit by hand.',
+    '',
+    "import type { ZipDataset } from './zip-codes';",
+    '',
+    'export const zipCrosswalk: ZipDataset = {',
+    `  version: ${quote(dataset.version)},`,
+    `  source: ${quote(dataset.source)},`,
+    '  counties: {',
+    ...Object.entries(dataset.counties).map(([fips, name]) => `    '${fips}': ${quote(name)},`),
+    '  },',
+    '  zips: [',
+    ...dataset.zips.map(([zip, city, stateCode, fips, center]) =>
+      `    ['${zip}', ${quote(city)}, '${stateCode}', [${fips.map(quote).join(', ')}]` +
+      (center ? `, [${center.join(', ')}]],` : '],')
+    ),
+    '  ],',
+    '};',
+    '',
+  ];
+  return lines.join('\n');
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+function titleCase(text: string): string {
+  return text.toLowerCase().replace(/\b[a-z]/g, c => c.toUpperCase());
+}
+
+function round(degrees: number): number {
+  return Math.round(degrees * 100) / 100;
+}
+
+main();
@@ -0,0 +1,65 @@
+/**
+ * List benefits overdue for re-verification, grouped by source
+ *
+ * Run: npm run report:stale [-- --as-of 2025-06-01]
+ */
+
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { formatDataFileError, loadAllBenefitSources } from '../src/lib/data-loader';
+import { DEFAULT_FRESHNESS_POLICY, findStaleBenefits, groupStaleBySource } from '../src/lib/freshness';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const DATA_DIR = join(ROOT, 'data/benefits');
+
+function parseAsOf(args: string[]): Date {
+  const i = args.indexOf('--as-of');
+  if (i === -1) return new Date();
+
+  const value = args[i + 1] ?? '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new Error(`--as-of needs a YYYY-MM-DD date, got "${value}"`);
+  }
+  return new Date(`${value}T00:00:00Z`);
+}
+
+async function main() {
+  const asOf = parseAsOf(process.argv.slice(2));
+  const { sources, errors } = await loadAllBenefitSources(DATA_DIR, ROOT);
+  for (const error of errors) console.error(`✗ ${formatDataFileError(error)}`);
+
+  const benefits = sources.flatMap(s => s.benefits);
+  const stale = findStaleBenefits(benefits, asOf);
+  const day = asOf.toISOString().slice(0, 10);
+
+  const policy = Object.entries(DEFAULT_FRESHNESS_POLICY)
+    .map(([level, days]) => `${level} ${days}d`)
+    .join(', ');
+  console.log(`Freshness policy: ${policy}`);
+
+  if (stale.length === 0) {
+    console.log(`✓ All ${benefits.length} benefits verified recently enough as of ${day}`);
+    return;
+  }
+
+  for (const group of groupStaleBySource(stale)) {
+    console.log(`\n${group.source} (${group.benefits.length})`);
+    for (const entry of group.benefits) {
+      const { benefit } = entry;
+      console.log(
+        entry.lastVerified
+          ? `  ${benefit.id} [${benefit.level}] verified ${entry.lastVerified}, ` +
+            `due ${entry.dueDate} (${entry.daysOverdue} days overdue)`
+          : `  ${benefit.id} [${benefit.level}] never verified`
+      );
+      console.log(`    ${benefit.source.url}`);
+    }
+  }
+
+  console.log(`\n${stale.length} of ${benefits.length} benefits need re-verification as of ${day}`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+/**
+ * Validate benefit data files
+ *
+ * Run: npm run validate
+ * Exits non-zero if any benefit record has problems. Missing
+ * translations are listed as warnings.
+ */
+
+import { readdirSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { benefitSources } from '../src/data/benefits';
+import { formatDataFileError, loadAllBenefitSources } from '../src/lib/data-loader';
+import { findMissingTranslations, formatIssue, validateBenefits } from '../src/lib/validate';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const STATES_DIR = join(ROOT, 'src/data/benefits/states');
+const DATA_DIR = join(ROOT, 'data/benefits');
+
+async function main() {
+  const { sources, errors } = await loadAllBenefitSources(DATA_DIR, ROOT);
+  const issues = [
+    ...errors.map(formatDataFileError),
+    ...validateBenefits(sources).map(formatIssue),
+  ];
+
+  // State files that exist but were never registered won't be loaded at all
+  const registered = new Set(benefitSources.map(s => s.file));
+  for (const name of readdirSync(STATES_DIR)) {
+    const file = relative(ROOT, join(STATES_DIR, name)).split('\\').join('/');
+    if (name.endsWith('.ts') && !registered.has(file)) {
+      issues.push(`${file}: not registered in src/data/benefits/index.ts`);
+    }
+  }
+
+  const total = sources.reduce((n, s) => n + s.benefits.length, 0);
+
+  for (const warning of findMissingTranslations(sources)) {
+    console.warn(`⚠ ${formatIssue(warning)}`);
+  }
+
+  if (issues.length) {
+    for (const issue of issues) console.error(`✗ ${issue}`);
+    console.error(`\n${issues.length} problem(s) in ${total} benefits`);
+    process.exit(1);
+  }
+
+  console.log(`✓ ${total} benefits in ${sources.length} files are valid`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
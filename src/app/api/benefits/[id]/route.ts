@@ -0,0 +1,17 @@
+/**
+ * GET /api/benefits/:id
+ *
+ * A single benefit and the benefits related to it.
+ */
+
+import { handleGetBenefit } from '../../../../lib/api';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const { id } = await params;
+  return handleGetBenefit(request, id);
+}
@@ -0,0 +1,13 @@
+/**
+ * GET /api/benefits?zip=78701
+ *
+ * Benefits available at a ZIP code, federal down to local.
+ */
+
+import { handleGetBenefits } from '../../../lib/api';
+
+export const runtime = 'nodejs';
+
+export function GET(request: Request): Promise<Response> {
+  return handleGetBenefits(request);
+}
@@ -0,0 +1,13 @@
+/**
+ * POST /api/compare
+ *
+ * Compare benefits for one VeteranProfile across candidate ZIP codes.
+ */
+
+import { handleCompare } from '../../../lib/api';
+
+export const runtime = 'nodejs';
+
+export function POST(request: Request): Promise<Response> {
+  return handleCompare(request);
+}
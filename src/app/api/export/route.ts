@@ -0,0 +1,13 @@
+/**
+ * POST /api/export?format=pdf|ics
+ *
+ * Download a VeteranProfile's matches as a PDF report or .ics reminders.
+ */
+
+import { handleExport } from '../../../lib/api';
+
+export const runtime = 'nodejs';
+
+export function POST(request: Request): Promise<Response> {
+  return handleExport(request);
+}
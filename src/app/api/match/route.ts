@@ -0,0 +1,13 @@
+/**
+ * POST /api/match
+ *
+ * Match a VeteranProfile (JSON body) to benefits, grouped by category.
+ */
+
+import { handleMatch } from '../../../lib/api';
+
+export const runtime = 'nodejs';
+
+export function POST(request: Request): Promise<Response> {
+  return handleMatch(request);
+}
@@ -0,0 +1,13 @@
+/**
+ * GET /api/search?q=...&zip=...
+ *
+ * Full-text benefit search with facet filters.
+ */
+
+import { handleSearch } from '../../../lib/api';
+
+export const runtime = 'nodejs';
+
+export function GET(request: Request): Promise<Response> {
+  return handleSearch(request);
+}
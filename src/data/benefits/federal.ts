@@ -30,7 +30,14 @@ export const federalBenefits: Benefit[] = [
         {
           type: 'service',
           description: 'Discharged under conditions other than dishonorable',
+          hard: true,
           criteria: { dischargeTypes: ['honorable', 'general', 'other-than-honorable'] }
+        },
+        {
+          // Above the limit, most veterans can still enroll, in a priority group with copays
+          type: 'income',
+          description: "Household income at or below VA's income limit for your county (geographic means test)",
+          criteria: { incomeLimit: { table: 'va-health-care-gmt' } }
         }
       ]
     },
@@ -39,10 +46,12 @@ export const federalBenefits: Benefit[] = [
       url: 'https://www.va.gov/health-care/apply/application/introduction',
       phone: '1-877-222-8387',
       formNumber: 'VA Form 10-10EZ',
-      instructions: `1. Apply online at va.gov/health-care/apply
-2. Or call 1-877-222-8387
-3. Or visit your local VA medical center
-4. You'll need: DD214, Social Security number, income information`
+      documents: ['dd214', 'ssn', 'income-records'],
+      steps: [
+        { type: 'online', text: 'Apply online with VA Form 10-10EZ', form: 'VA Form 10-10EZ' },
+        { type: 'phone', text: 'Or apply by phone' },
+        { type: 'in-person', text: 'Or apply at your local VA medical center' }
+      ]
     },
     source: {
       name: 'U.S. Department of Veterans Affairs',
@@ -50,7 +59,35 @@ export const federalBenefits: Benefit[] = [
       lastVerified: '2025-01-01'
     },
     tags: ['healthcare', 'medical', 'prescriptions', 'mental health'],
-    relatedBenefits: ['va-disability', 'va-mental-health']
+    relatedBenefits: ['va-disability', 'va-mental-health'],
+    relationships: [
+      { type: 'stacks-with', benefitId: 'va-disability' }
+    ],
+    translations: {
+      es: {
+        summary: 'Atención médica gratuita o de bajo costo en centros médicos y clínicas de la VA.',
+        description: `El programa de atención médica de la VA cubre una amplia gama de servicios, como
+          atención preventiva, atención primaria, atención especializada, servicios de salud
+          mental, medicamentos recetados y más. El costo depende de su grupo de prioridad,
+          que se basa en factores como las discapacidades relacionadas con el servicio y los
+          ingresos.`,
+        eligibility: {
+          summary: 'La mayoría de los veteranos que sirvieron en servicio activo y recibieron una baja que no fue deshonrosa califican.',
+          requirements: [
+            'Sirvió en servicio activo (no solo entrenamiento)',
+            'Baja en condiciones que no fueron deshonrosas',
+            'Ingresos del hogar iguales o inferiores al límite de ingresos de la VA para su condado (prueba de medios geográfica)'
+          ]
+        },
+        action: {
+          steps: [
+            'Presente la solicitud en línea con el formulario VA Form 10-10EZ',
+            'O presente la solicitud por teléfono',
+            'O presente la solicitud en su centro médico de la VA más cercano'
+          ]
+        }
+      }
+    }
   },
   {
     id: 'va-disability',
@@ -76,6 +113,7 @@ export const federalBenefits: Benefit[] = [
         {
           type: 'service',
           description: 'Discharged under other than dishonorable conditions',
+          hard: true,
           criteria: { dischargeTypes: ['honorable', 'general', 'other-than-honorable'] }
         }
       ]
@@ -85,18 +123,52 @@ export const federalBenefits: Benefit[] = [
       url: 'https://www.va.gov/disability/file-disability-claim-form-21-526ez/',
       phone: '1-800-827-1000',
       formNumber: 'VA Form 21-526EZ',
-      instructions: `1. Gather evidence: medical records, service records, buddy statements
-2. Apply online at va.gov or with a VSO (Veterans Service Organization)
-3. Attend a C&P exam if scheduled
-4. Processing typically takes 3-6 months`
+      documents: ['medical-records', 'service-records', 'buddy-statements'],
+      steps: [
+        { type: 'online', text: 'File your claim online, or with help from a VSO (Veterans Service Organization)', form: 'VA Form 21-526EZ' },
+        { type: 'in-person', text: 'Attend a C&P (compensation and pension) exam if VA schedules one' },
+        { type: 'note', text: 'Processing typically takes 3-6 months' }
+      ]
     },
     source: {
       name: 'U.S. Department of Veterans Affairs',
       url: 'https://www.va.gov/disability/',
       lastVerified: '2025-01-01'
     },
+    value: {
+      // Veteran alone, no dependents, rates effective Dec 1, 2024 (x12)
+      annualByDisabilityRating: {
+        '10': 2106, '20': 4163, '30': 6449, '40': 9290, '50': 13224,
+        '60': 16751, '70': 21110, '80': 24539, '90': 27576, '100': 45976,
+      },
+      basis: '2025 VA disability compensation rates, veteran alone',
+    },
     tags: ['disability', 'compensation', 'monthly payment', 'service-connected'],
-    relatedBenefits: ['va-healthcare', 'va-tdiu']
+    relatedBenefits: ['va-healthcare', 'va-tdiu'],
+    translations: {
+      es: {
+        summary: 'Pago mensual libre de impuestos por lesiones o enfermedades causadas o agravadas por el servicio militar.',
+        description: `La compensación por discapacidad es un beneficio monetario libre de impuestos que
+          se paga a los veteranos con discapacidades causadas por una enfermedad o lesión
+          que se produjo o se agravó durante el servicio militar activo. La compensación
+          varía según la calificación de discapacidad (0-100%).`,
+        eligibility: {
+          summary: 'Usted sirvió en servicio activo y tiene una discapacidad relacionada con el servicio.',
+          requirements: [
+            'Sirvió en servicio activo, servicio activo para entrenamiento o entrenamiento en servicio inactivo',
+            'Tiene una discapacidad relacionada con el servicio (lesión o enfermedad causada o agravada por el servicio)',
+            'Baja en condiciones que no fueron deshonrosas'
+          ]
+        },
+        action: {
+          steps: [
+            'Presente su reclamo en línea o con ayuda de una organización de servicio a veteranos (VSO)',
+            'Asista al examen C&P (de compensación y pensión) si la VA le programa uno',
+            'El trámite suele tardar de 3 a 6 meses'
+          ]
+        }
+      }
+    }
   },
   {
     id: 'gi-bill-post-911',
@@ -115,11 +187,12 @@ export const federalBenefits: Benefit[] = [
         {
           type: 'service',
           description: 'Served at least 90 aggregate days on active duty after Sept 10, 2001',
-          criteria: { minServiceDays: 90 }
+          criteria: { rule: { field: 'serviceDays', op: 'gte', value: 90, era: 'post-911' } }
         },
         {
           type: 'service',
           description: 'Discharged honorably',
+          hard: true,
           criteria: { dischargeTypes: ['honorable'] }
         }
       ]
@@ -129,10 +202,13 @@ export const federalBenefits: Benefit[] = [
       url: 'https://www.va.gov/education/how-to-apply/',
       phone: '1-888-442-4551',
       formNumber: 'VA Form 22-1990',
-      instructions: `1. Apply for a Certificate of Eligibility (COE) at va.gov
-2. Choose your school and program
-3. Submit enrollment certification through your school
-4. Benefits pay directly to school; housing allowance pays to you`
+      documents: ['dd214'],
+      steps: [
+        { type: 'online', text: 'Apply for a Certificate of Eligibility (COE) at va.gov', form: 'VA Form 22-1990' },
+        { type: 'note', text: 'Choose your school and program' },
+        { type: 'in-person', text: "Ask your school's certifying official to submit your enrollment certification", repeats: 'semester' },
+        { type: 'note', text: 'Tuition is paid directly to the school; the housing allowance is paid to you' }
+      ]
     },
     source: {
       name: 'U.S. Department of Veterans Affairs',
@@ -140,7 +216,32 @@ export const federalBenefits: Benefit[] = [
       lastVerified: '2025-01-01'
     },
     tags: ['education', 'college', 'tuition', 'housing allowance', 'training'],
-    relatedBenefits: ['va-voc-rehab']
+    relatedBenefits: ['va-voc-rehab'],
+    translations: {
+      es: {
+        summary: 'Paga la universidad, los estudios de posgrado y programas de capacitación. Incluye una asignación para vivienda.',
+        description: `El Post-9/11 GI Bill ofrece hasta 36 meses de beneficios educativos. Puede pagar
+          la matrícula completa en escuelas públicas, una asignación para vivienda y un
+          estipendio para libros y materiales. Los beneficios se pueden usar para la
+          universidad, estudios de posgrado, capacitación vocacional y más. Es posible que
+          pueda transferir los beneficios a sus dependientes.`,
+        eligibility: {
+          summary: 'Sirvió al menos 90 días en servicio activo después del 10 de septiembre de 2001.',
+          requirements: [
+            'Sirvió un total de al menos 90 días en servicio activo después del 10 de septiembre de 2001',
+            'Baja honorable'
+          ]
+        },
+        action: {
+          steps: [
+            'Solicite un Certificado de Elegibilidad (COE) en va.gov',
+            'Elija su escuela y programa',
+            'Pida al funcionario certificador de su escuela que envíe su certificación de inscripción',
+            'La matrícula se paga directamente a la escuela; la asignación para vivienda se le paga a usted'
+          ]
+        }
+      }
+    }
   },
   {
     id: 'va-home-loan',
@@ -176,11 +277,13 @@ export const federalBenefits: Benefit[] = [
       url: 'https://www.va.gov/housing-assistance/home-loans/how-to-apply/',
       phone: '1-877-827-3702',
       formNumber: 'VA Form 26-1880',
-      instructions: `1. Get your Certificate of Eligibility (COE) from va.gov
-2. Find a VA-approved lender
-3. Get pre-approved for your loan amount
-4. Find a home and make an offer
-5. Complete the VA appraisal and close on your home`
+      documents: ['dd214', 'mortgage-documents'],
+      steps: [
+        { type: 'online', text: 'Get your Certificate of Eligibility (COE) from va.gov', form: 'VA Form 26-1880' },
+        { type: 'note', text: 'Find a VA-approved lender and get pre-approved for your loan amount' },
+        { type: 'note', text: 'Find a home and make an offer' },
+        { type: 'note', text: 'Complete the VA appraisal and close on your home' }
+      ]
     },
     source: {
       name: 'U.S. Department of Veterans Affairs',
@@ -188,6 +291,506 @@ export const federalBenefits: Benefit[] = [
       lastVerified: '2025-01-01'
     },
     tags: ['housing', 'home loan', 'mortgage', 'no down payment'],
-    relatedBenefits: ['va-sah-grant']
+    relatedBenefits: ['va-sah-grant'],
+    translations: {
+      es: {
+        summary: 'Compre una casa sin pago inicial y sin seguro hipotecario privado.',
+        description: `Los préstamos hipotecarios respaldados por la VA ayudan a los veteranos a comprar,
+          construir o refinanciar una casa. Entre sus ventajas están: sin pago inicial (en
+          la mayoría de los casos), sin seguro hipotecario privado, tasas de interés
+          competitivas y costos de cierre limitados. La VA garantiza una parte del préstamo,
+          lo que reduce el riesgo para los prestamistas.`,
+        eligibility: {
+          summary: 'Sirvió en servicio activo y cumple los requisitos mínimos de servicio.',
+          requirements: [
+            'Cumplir los requisitos mínimos de servicio activo (varían según la época)',
+            'Baja en condiciones que no fueron deshonrosas',
+            'Cumplir los requisitos de crédito e ingresos del prestamista'
+          ]
+        },
+        action: {
+          steps: [
+            'Obtenga su Certificado de Elegibilidad (COE) en va.gov',
+            'Busque un prestamista aprobado por la VA y obtenga la preaprobación del monto de su préstamo',
+            'Busque una casa y haga una oferta',
+            'Complete la tasación de la VA y cierre la compra de su casa'
+          ]
+        }
+      }
+    }
+  },
+  {
+    id: 'va-mental-health',
+    name: 'VA Mental Health Care',
+    summary: 'Counseling, therapy and treatment for PTSD, depression, substance use and more.',
+    description: `VA offers mental health services at medical centers, community clinics
+      and Vet Centers, including treatment for PTSD, depression, military sexual trauma
+      and substance use. Some services, like Vet Center counseling and crisis care,
+      are available even if you aren't enrolled in VA health care.`,
+    category: 'healthcare',
+    level: 'federal',
+    coverage: {},
+    eligibility: {
+      summary: 'Veterans enrolled in VA health care; some services are open to all veterans.',
+      requirements: [
+        {
+          type: 'other',
+          description: 'Enrolled in VA health care (not required for Vet Centers or crisis care)'
+        }
+      ]
+    },
+    action: {
+      type: 'phone',
+      url: 'https://www.va.gov/health-care/health-needs-conditions/mental-health/',
+      phone: '1-877-222-8387',
+      steps: [
+        { type: 'phone', text: 'In crisis: dial 988 and press 1 (Veterans Crisis Line)', phone: '988' },
+        { type: 'phone', text: 'Call your VA medical center and ask for a mental health appointment' },
+        { type: 'in-person', text: 'Or visit a Vet Center for confidential counseling' },
+        { type: 'note', text: 'If not enrolled, apply for VA health care first' }
+      ]
+    },
+    source: {
+      name: 'U.S. Department of Veterans Affairs',
+      url: 'https://www.va.gov/health-care/health-needs-conditions/mental-health/',
+      lastVerified: null  // Not yet checked against the source
+    },
+    tags: ['mental health', 'ptsd', 'counseling', 'crisis'],
+    relatedBenefits: ['va-healthcare'],
+    translations: {
+      es: {
+        summary: 'Consejería, terapia y tratamiento para el TEPT (PTSD), la depresión, el consumo de sustancias y más.',
+        description: `La VA ofrece servicios de salud mental en centros médicos, clínicas comunitarias y
+          Vet Centers, incluido tratamiento para el TEPT (PTSD), la depresión, el trauma
+          sexual militar y el consumo de sustancias. Algunos servicios, como la consejería
+          en los Vet Centers y la atención en crisis, están disponibles aunque no esté
+          inscrito en la atención médica de la VA.`,
+        eligibility: {
+          summary: 'Veteranos inscritos en la atención médica de la VA; algunos servicios están abiertos a todos los veteranos.',
+          requirements: [
+            'Inscrito en la atención médica de la VA (no es necesario para los Vet Centers ni para la atención en crisis)'
+          ]
+        },
+        action: {
+          steps: [
+            'En crisis: marque 988 y oprima 1 (Línea de Crisis para Veteranos)',
+            'Llame a su centro médico de la VA y pida una cita de salud mental',
+            'O visite un Vet Center para recibir consejería confidencial',
+            'Si no está inscrito, solicite primero la atención médica de la VA'
+          ]
+        }
+      }
+    }
+  },
+  {
+    id: 'va-tdiu',
+    name: 'Individual Unemployability (TDIU)',
+    summary: 'Disability pay at the 100% rate if your service-connected conditions keep you from working.',
+    description: `Total Disability Individual Unemployability lets VA pay compensation at
+      the 100% rate, even if your combined rating is lower, when your service-connected
+      disabilities keep you from holding a steady job that supports you.`,
+    category: 'disability',
+    level: 'federal',
+    coverage: {},
+    eligibility: {
+      summary: 'Veterans with a high service-connected rating who cannot keep steady work.',
+      requirements: [
+        {
+          type: 'disability',
+          description: 'One disability rated 60%+, or a combined 70%+ with one disability rated 40%+',
+          criteria: { minDisabilityRating: 60 }
+        },
+        {
+          type: 'other',
+          description: "Can't keep a steady job that supports you because of service-connected disabilities"
+        }
+      ]
+    },
+    action: {
+      type: 'online',
+      url: 'https://www.va.gov/disability/eligibility/special-claims/unemployability/',
+      phone: '1-800-827-1000',
+      formNumber: 'VA Form 21-8940',
+      documents: ['medical-records'],
+      steps: [
+        { type: 'online', text: 'File VA Form 21-8940 with your disability claim or on its own', form: 'VA Form 21-8940' },
+        { type: 'mail', text: 'Include VA Form 21-4192 for your most recent employer', form: 'VA Form 21-4192' },
+        { type: 'note', text: 'Provide medical evidence of how your conditions affect work' }
+      ]
+    },
+    source: {
+      name: 'U.S. Department of Veterans Affairs',
+      url: 'https://www.va.gov/disability/eligibility/special-claims/unemployability/',
+      lastVerified: null  // Not yet checked against the source
+    },
+    value: {
+      // Paid instead of the rated amount, so only the difference is extra
+      annualByDisabilityRating: {
+        '60': 29225, '70': 24866, '80': 21437, '90': 18400,
+      },
+      basis: '2025 100% rate minus the rated amount it replaces, veteran alone',
+    },
+    tags: ['disability', 'unemployability', 'compensation', 'monthly payment'],
+    relatedBenefits: ['va-disability'],
+    relationships: [
+      { type: 'requires', benefitId: 'va-disability', note: 'TDIU is paid on top of an existing disability claim' }
+    ],
+    translations: {
+      es: {
+        summary: 'Pago por discapacidad a la tasa del 100% si sus condiciones relacionadas con el servicio le impiden trabajar.',
+        description: `La Incapacidad Individual Total (TDIU) permite que la VA pague la compensación a
+          la tasa del 100%, aunque su calificación combinada sea menor, cuando sus
+          discapacidades relacionadas con el servicio le impiden mantener un empleo estable
+          que le permita mantenerse.`,
+        eligibility: {
+          summary: 'Veteranos con una calificación alta por discapacidad relacionada con el servicio que no pueden mantener un empleo estable.',
+          requirements: [
+            'Una discapacidad calificada en 60% o más, o una calificación combinada de 70% o más con una discapacidad de 40% o más',
+            'No puede mantener un empleo estable que le permita mantenerse debido a discapacidades relacionadas con el servicio'
+          ]
+        },
+        action: {
+          steps: [
+            'Presente el formulario VA Form 21-8940 junto con su reclamo por discapacidad o por separado',
+            'Incluya el formulario VA Form 21-4192 para su empleador más reciente',
+            'Presente pruebas médicas de cómo sus condiciones afectan su trabajo'
+          ]
+        }
+      }
+    }
+  },
+  {
+    id: 'va-voc-rehab',
+    name: 'Veteran Readiness and Employment (VR&E)',
+    summary: 'Job training, education and employment help for veterans with service-connected disabilities.',
+    description: `Veteran Readiness and Employment (Chapter 31) helps veterans with a
+      service-connected disability prepare for, find and keep a suitable job. It can
+      pay for education and training, and offers career counseling and help starting
+      a business or living independently.`,
+    category: 'employment',
+    level: 'federal',
+    coverage: {},
+    eligibility: {
+      summary: 'Veterans with a service-connected disability rating of at least 10%.',
+      requirements: [
+        {
+          type: 'service',
+          description: 'Discharged under other than dishonorable conditions',
+          hard: true,
+          criteria: { dischargeTypes: ['honorable', 'general', 'other-than-honorable'] }
+        },
+        {
+          type: 'disability',
+          description: 'Have a service-connected disability rating of at least 10%',
+          criteria: { minDisabilityRating: 10 }
+        }
+      ]
+    },
+    action: {
+      type: 'online',
+      url: 'https://www.va.gov/careers-employment/vocational-rehabilitation/',
+      phone: '1-800-827-1000',
+      formNumber: 'VA Form 28-1900',
+      documents: ['va-rating-letter'],
+      steps: [
+        { type: 'online', text: 'Apply online at va.gov', form: 'VA Form 28-1900' },
+        { type: 'in-person', text: 'Meet with a Vocational Rehabilitation Counselor' },
+        { type: 'note', text: 'Build a rehabilitation plan together' },
+        { type: 'note', text: 'Start training or employment services' }
+      ]
+    },
+    source: {
+      name: 'U.S. Department of Veterans Affairs',
+      url: 'https://www.va.gov/careers-employment/vocational-rehabilitation/',
+      lastVerified: null  // Not yet checked against the source
+    },
+    tags: ['employment', 'training', 'education', 'chapter 31'],
+    relatedBenefits: ['gi-bill-post-911', 'va-disability'],
+    relationships: [
+      { type: 'excludes', benefitId: 'gi-bill-post-911', note: "VR&E and the GI Bill can't pay for the same period of training" }
+    ],
+    translations: {
+      es: {
+        summary: 'Capacitación laboral, educación y ayuda para conseguir empleo para veteranos con discapacidades relacionadas con el servicio.',
+        description: `El programa Veteran Readiness and Employment (Capítulo 31) ayuda a los veteranos
+          con una discapacidad relacionada con el servicio a prepararse para un empleo
+          adecuado, encontrarlo y mantenerlo. Puede pagar educación y capacitación, y ofrece
+          orientación profesional y ayuda para iniciar un negocio o vivir de forma
+          independiente.`,
+        eligibility: {
+          summary: 'Veteranos con una calificación de discapacidad relacionada con el servicio de al menos 10%.',
+          requirements: [
+            'Baja en condiciones que no fueron deshonrosas',
+            'Tiene una calificación de discapacidad relacionada con el servicio de al menos 10%'
+          ]
+        },
+        action: {
+          steps: [
+            'Presente la solicitud en línea en va.gov',
+            'Reúnase con un consejero de rehabilitación vocacional',
+            'Elaboren juntos un plan de rehabilitación',
+            'Comience la capacitación o los servicios de empleo'
+          ]
+        }
+      }
+    }
+  },
+  {
+    id: 'va-sah-grant',
+    name: 'Specially Adapted Housing Grant',
+    summary: 'Grants to buy, build or change a home to live more independently with a disability.',
+    description: `Specially Adapted Housing (SAH) and Special Housing Adaptation (SHA)
+      grants help veterans with certain service-connected disabilities buy, build or
+      remodel a home, for example adding ramps or wider doorways.`,
+    category: 'housing',
+    level: 'federal',
+    coverage: {},
+    eligibility: {
+      summary: 'Veterans with certain severe service-connected disabilities who own or will own a home.',
+      requirements: [
+        {
+          type: 'disability',
+          description: 'Have a qualifying service-connected disability (such as loss of use of limbs or blindness)'
+        },
+        {
+          type: 'other',
+          description: 'Own or will own the home'
+        }
+      ]
+    },
+    action: {
+      type: 'online',
+      url: 'https://www.va.gov/housing-assistance/disability-housing-grants/',
+      phone: '1-877-827-3702',
+      formNumber: 'VA Form 26-4555',
+      documents: ['va-rating-letter'],
+      steps: [
+        { type: 'online', text: 'Apply online at va.gov or submit VA Form 26-4555', form: 'VA Form 26-4555' },
+        { type: 'in-person', text: 'A VA agent will review your home and plans' },
+        { type: 'note', text: 'Get contractor bids and VA approval before work starts' }
+      ]
+    },
+    source: {
+      name: 'U.S. Department of Veterans Affairs',
+      url: 'https://www.va.gov/housing-assistance/disability-housing-grants/',
+      lastVerified: null  // Not yet checked against the source
+    },
+    tags: ['housing', 'grant', 'home modification', 'disability'],
+    relatedBenefits: ['va-home-loan'],
+    relationships: [
+      { type: 'requires', benefitId: 'va-disability', note: 'The grant is for service-connected disabilities, so you need a VA disability rating' }
+    ],
+    translations: {
+      es: {
+        summary: 'Subvenciones para comprar, construir o modificar una casa para vivir con más independencia con una discapacidad.',
+        description: `Las subvenciones de Vivienda Especialmente Adaptada (SAH) y de Adaptación Especial
+          de Vivienda (SHA) ayudan a los veteranos con ciertas discapacidades relacionadas
+          con el servicio a comprar, construir o remodelar una casa, por ejemplo para
+          agregar rampas o ensanchar las puertas.`,
+        eligibility: {
+          summary: 'Veteranos con ciertas discapacidades graves relacionadas con el servicio que son o serán dueños de una casa.',
+          requirements: [
+            'Tiene una discapacidad relacionada con el servicio que califica (como la pérdida del uso de extremidades o la ceguera)',
+            'Es o será dueño de la casa'
+          ]
+        },
+        action: {
+          steps: [
+            'Presente la solicitud en línea en va.gov o envíe el formulario VA Form 26-4555',
+            'Un agente de la VA revisará su casa y sus planes',
+            'Obtenga presupuestos de contratistas y la aprobación de la VA antes de comenzar la obra'
+          ]
+        }
+      }
+    }
+  },
+  {
+    id: 'va-pension',
+    name: 'Veterans Pension',
+    summary: 'Monthly payments for wartime veterans with limited income who are 65+ or disabled.',
+    description: `The Veterans Pension program provides monthly payments to wartime
+      veterans who meet certain age or disability requirements and whose yearly family
+      income and net worth are below limits set by Congress. The payment makes up the
+      difference between your countable income and the Maximum Annual Pension Rate.`,
+    category: 'financial',
+    level: 'federal',
+    coverage: {},
+    eligibility: {
+      summary: 'Wartime veterans with limited income who are 65 or older, or permanently disabled.',
+      requirements: [
+        {
+          type: 'service',
+          description: 'At least 90 days of active duty, with at least 1 day during a wartime period',
+          criteria: {
+            minServiceDays: 90,
+            rule: {
+              any: [
+                { field: 'serviceDays', op: 'gte', value: 1, era: 'wwii' },
+                { field: 'serviceDays', op: 'gte', value: 1, era: 'korea' },
+                { field: 'serviceDays', op: 'gte', value: 1, era: 'vietnam' },
+                { field: 'serviceDays', op: 'gte', value: 1, era: 'gulf' },
+                { field: 'serviceDays', op: 'gte', value: 1, era: 'post-911' }
+              ]
+            }
+          }
+        },
+        {
+          type: 'service',
+          description: 'Discharged under other than dishonorable conditions',
+          hard: true,
+          criteria: { dischargeTypes: ['honorable', 'general', 'other-than-honorable'] }
+        },
+        {
+          type: 'age',
+          description: 'Age 65 or older, or permanently and totally disabled, or in a nursing home'
+        },
+        {
+          type: 'income',
+          description: 'Yearly family income below the Maximum Annual Pension Rate',
+          criteria: { incomeLimit: { table: 'va-pension-mapr' } }
+        },
+        {
+          type: 'other',
+          description: 'Net worth below the limit set by Congress'
+        }
+      ]
+    },
+    action: {
+      type: 'online',
+      url: 'https://www.va.gov/pension/how-to-apply/',
+      phone: '1-877-294-6380',
+      formNumber: 'VA Form 21P-527EZ',
+      documents: ['dd214', 'ssn', 'income-records', 'net-worth-records', 'bank-account'],
+      steps: [
+        { type: 'online', text: 'Apply online at va.gov', form: 'VA Form 21P-527EZ' },
+        { type: 'mail', text: 'Or mail VA Form 21P-527EZ to the Pension Intake Center', form: 'VA Form 21P-527EZ' }
+      ]
+    },
+    source: {
+      name: 'U.S. Department of Veterans Affairs',
+      url: 'https://www.va.gov/pension/eligibility/',
+      lastVerified: null  // Not yet checked against the source
+    },
+    tags: ['pension', 'monthly payment', 'income', 'wartime'],
+    relatedBenefits: ['va-healthcare'],
+    relationships: [
+      { type: 'excludes', benefitId: 'va-disability', note: 'VA pays either pension or disability compensation, whichever is higher, not both' }
+    ],
+    translations: {
+      es: {
+        summary: 'Pagos mensuales para veteranos de tiempos de guerra con ingresos limitados que tienen 65 años o más o una discapacidad.',
+        description: `El programa de Pensión para Veteranos ofrece pagos mensuales a veteranos de
+          tiempos de guerra que cumplen ciertos requisitos de edad o discapacidad y cuyos
+          ingresos familiares anuales y patrimonio neto están por debajo de los límites
+          fijados por el Congreso. El pago cubre la diferencia entre sus ingresos
+          computables y la Tasa Máxima Anual de Pensión (MAPR).`,
+        eligibility: {
+          summary: 'Veteranos de tiempos de guerra con ingresos limitados que tienen 65 años o más o una discapacidad permanente.',
+          requirements: [
+            'Al menos 90 días de servicio activo, con al menos 1 día durante un período de guerra',
+            'Baja en condiciones que no fueron deshonrosas',
+            'Tener 65 años o más, o una discapacidad permanente y total, o vivir en un hogar de ancianos',
+            'Ingresos familiares anuales por debajo de la Tasa Máxima Anual de Pensión',
+            'Patrimonio neto por debajo del límite fijado por el Congreso'
+          ]
+        },
+        action: {
+          steps: [
+            'Presente la solicitud en línea en va.gov',
+            'O envíe por correo el formulario VA Form 21P-527EZ al Centro de Recepción de Pensiones (Pension Intake Center)'
+          ]
+        }
+      }
+    }
+  },
+  {
+    id: 'va-champva',
+    name: 'CHAMPVA Health Insurance',
+    summary: 'Health insurance for the spouse and children of a veteran with a permanent and total service-connected disability.',
+    description: `The Civilian Health and Medical Program of the Department of Veterans
+      Affairs (CHAMPVA) shares the cost of covered health care for the spouse, surviving
+      spouse, and children of veterans who are permanently and totally disabled by a
+      service-connected condition or who died from one. Family members who can get
+      TRICARE are covered there instead.`,
+    category: 'healthcare',
+    level: 'federal',
+    coverage: {},
+    eligibility: {
+      summary: 'Spouse or dependent child of a veteran rated permanently and totally disabled, or who died of a service-connected condition.',
+      applicants: ['spouse', 'surviving-spouse', 'child'],
+      requirements: [
+        {
+          type: 'disability',
+          description: 'Veteran is permanently and totally disabled by a service-connected condition, or died from one',
+          criteria: {
+            rule: {
+              any: [
+                { field: 'disabilityRating', op: 'gte', value: 100 },
+                { field: 'deathServiceConnected', op: 'eq', value: true }
+              ]
+            }
+          }
+        },
+        {
+          // VA's dependent child: under 18, under 23 in school, or disabled before 18
+          type: 'family',
+          description: 'Children are under 18, 18 to 23 and full-time students, or became permanently disabled before 18',
+          criteria: {
+            rule: {
+              any: [
+                { field: 'applicantRelationship', op: 'in', value: ['spouse', 'surviving-spouse'] },
+                { field: 'qualifyingChildren', op: 'gte', value: 1 }
+              ]
+            }
+          }
+        },
+        {
+          type: 'other',
+          description: 'Not eligible for TRICARE'
+        }
+      ]
+    },
+    action: {
+      type: 'mail',
+      url: 'https://www.va.gov/family-and-caregiver-benefits/health-and-disability/champva/',
+      phone: '1-800-733-8387',
+      formNumber: 'VA Form 10-10d',
+      documents: ['va-rating-letter', 'birth-certificate', 'ssn'],
+      steps: [
+        { type: 'mail', text: 'Mail VA Form 10-10d to the VHA Office of Integrated Veteran Care', form: 'VA Form 10-10d' },
+        { type: 'note', text: 'Include VA Form 10-7959c, the Other Health Insurance certification' }
+      ]
+    },
+    source: {
+      name: 'U.S. Department of Veterans Affairs',
+      url: 'https://www.va.gov/family-and-caregiver-benefits/health-and-disability/champva/',
+      lastVerified: null  // Not yet checked against the source
+    },
+    tags: ['health care', 'insurance', 'family', 'spouse', 'children', 'survivors'],
+    relatedBenefits: ['va-disability', 'va-healthcare'],
+    translations: {
+      es: {
+        summary: 'Seguro médico para el cónyuge y los hijos de un veterano con una discapacidad permanente y total relacionada con el servicio.',
+        description: `El Programa Civil de Salud y Medicina del Departamento de Asuntos de Veteranos
+          (CHAMPVA) comparte el costo de la atención médica cubierta del cónyuge, el cónyuge
+          sobreviviente y los hijos de veteranos con una discapacidad permanente y total
+          relacionada con el servicio, o que murieron a causa de ella. Los familiares que
+          pueden recibir TRICARE tienen cobertura allí.`,
+        eligibility: {
+          summary: 'Cónyuge o hijo dependiente de un veterano con una discapacidad permanente y total, o que murió por una afección relacionada con el servicio.',
+          requirements: [
+            'El veterano tiene una discapacidad permanente y total relacionada con el servicio, o murió a causa de ella',
+            'Los hijos tienen menos de 18 años, de 18 a 23 y estudian a tiempo completo, o quedaron con una discapacidad permanente antes de los 18',
+            'No tener derecho a TRICARE'
+          ]
+        },
+        action: {
+          steps: [
+            'Envíe por correo el formulario VA Form 10-10d a la Oficina de Atención Integrada al Veterano (VHA)',
+            'Incluya el formulario VA Form 10-7959c, la certificación de otro seguro médico'
+          ]
+        }
+      }
+    }
   }
 ];
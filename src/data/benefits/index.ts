@@ -0,0 +1,22 @@
+/**
+ * Benefit data files
+ *
+ * Every file of benefit records is registered here. Add new state
+ * files to the list so they're loaded and validated.
+ */
+
+import type { Benefit } from '../schema';
+import { federalBenefits } from './federal';
+import { texasBenefits } from './states/tx';
+
+export interface BenefitSource {
+  file: string;              // Path relative to the repo root
+  benefits: Benefit[];
+}
+
+export const benefitSources: BenefitSource[] = [
+  { file: 'src/data/benefits/federal.ts', benefits: federalBenefits },
+  { file: 'src/data/benefits/states/tx.ts', benefits: texasBenefits },
+];
+
+export const allBenefits: Benefit[] = benefitSources.flatMap(s => s.benefits);
@@ -25,6 +25,19 @@ export const texasBenefits: Benefit[] = [
         {
           type: 'service',
           description: 'Texas resident at time of entry into service, or resident for 12+ months',
+          criteria: {
+            rule: {
+              any: [
+                { field: 'entryState', op: 'eq', value: 'TX' },
+                {
+                  all: [
+                    { field: 'state', op: 'eq', value: 'TX' },
+                    { field: 'stateResidencyMonths', op: 'gte', value: 12 }
+                  ]
+                }
+              ]
+            }
+          }
         },
         {
           type: 'service',
@@ -34,6 +47,7 @@ export const texasBenefits: Benefit[] = [
         {
           type: 'service',
           description: 'Honorable discharge or separation',
+          hard: true,
           criteria: { dischargeTypes: ['honorable'] }
         },
         {
@@ -45,10 +59,11 @@ export const texasBenefits: Benefit[] = [
     action: {
       type: 'in-person',
       url: 'https://www.tvc.texas.gov/education/hazlewood-act/',
-      instructions: `1. Complete the Hazlewood application at your school's VA office
-2. Provide DD214, proof of Texas residency
-3. Apply separately for each semester
-4. Can be combined with federal GI Bill benefits (use Hazlewood first)`
+      documents: ['dd214', 'proof-of-residency'],
+      steps: [
+        { type: 'in-person', text: "Complete the Hazlewood application at your school's VA office", repeats: 'semester' },
+        { type: 'note', text: 'Can be combined with federal GI Bill benefits (use Hazlewood first)' }
+      ]
     },
     source: {
       name: 'Texas Veterans Commission',
@@ -56,7 +71,128 @@ export const texasBenefits: Benefit[] = [
       lastVerified: '2025-01-01'
     },
     tags: ['education', 'tuition', 'college', 'free tuition', 'children'],
-    relatedBenefits: ['gi-bill-post-911']
+    relatedBenefits: ['gi-bill-post-911', 'tx-hazlewood-legacy'],
+    relationships: [
+      { type: 'use-before', benefitId: 'gi-bill-post-911', note: 'Can be combined with the GI Bill; use Hazlewood first' }
+    ],
+    translations: {
+      es: {
+        summary: 'Matrícula gratuita en universidades públicas de Texas para veteranos que califican y sus hijos.',
+        description: `La Ley Hazlewood ofrece a los veteranos que califican, a sus cónyuges y a sus
+          hijos dependientes hasta 150 horas de exención de matrícula en colegios y
+          universidades públicas de Texas. Es uno de los beneficios estatales de educación
+          más generosos del país. La disposición Legacy permite transferir las horas no
+          usadas a los hijos.`,
+        eligibility: {
+          summary: 'Veterano residente de Texas que sirvió al menos 181 días en servicio activo.',
+          requirements: [
+            'Residente de Texas al ingresar al servicio, o residente por 12 meses o más',
+            'Al menos 181 días de servicio activo',
+            'Baja o separación honorable',
+            'No estar en mora con ningún préstamo educativo'
+          ]
+        },
+        action: {
+          steps: [
+            'Llene la solicitud Hazlewood en la oficina de asuntos de veteranos (VA) de su escuela',
+            'Se puede combinar con los beneficios federales del GI Bill (use Hazlewood primero)'
+          ]
+        }
+      }
+    }
+  },
+  {
+    id: 'tx-hazlewood-legacy',
+    name: 'Hazlewood Legacy Act',
+    summary: 'Veterans can pass unused Hazlewood hours to a child for free tuition at Texas public colleges.',
+    description: `The Legacy provision of the Hazlewood Act lets an eligible veteran
+      transfer unused hours of their 150-hour tuition exemption to a child. The child
+      uses the hours at Texas public colleges and universities, and must be 25 or
+      younger on the first day of each semester the exemption is used.`,
+    category: 'education',
+    level: 'state',
+    coverage: { states: ['TX'] },
+    eligibility: {
+      summary: "Texas-resident child, 25 or younger, of a veteran who qualifies for Hazlewood and assigned them hours.",
+      applicants: ['child'],
+      requirements: [
+        {
+          type: 'service',
+          description: 'Veteran served at least 181 days of active duty',
+          criteria: { minServiceDays: 181 }
+        },
+        {
+          type: 'service',
+          description: 'Veteran received an honorable discharge',
+          hard: true,
+          criteria: { dischargeTypes: ['honorable'] }
+        },
+        {
+          type: 'family',
+          description: 'Child is 25 or younger on the first day of the semester',
+          hard: true,
+          criteria: { maxApplicantAge: 25 }
+        },
+        {
+          type: 'family',
+          description: 'Veteran assigned unused Hazlewood hours to the child'
+        },
+        {
+          // Texas tuition residency: 12 months in Texas, not just a current address
+          type: 'other',
+          description: 'Child is a Texas resident',
+          criteria: {
+            rule: {
+              all: [
+                { field: 'state', op: 'eq', value: 'TX' },
+                { field: 'stateResidencyMonths', op: 'gte', value: 12 }
+              ]
+            }
+          }
+        }
+      ]
+    },
+    action: {
+      type: 'in-person',
+      url: 'https://www.tvc.texas.gov/education/hazlewood-act/',
+      documents: ['dd214', 'birth-certificate', 'proof-of-residency'],
+      steps: [
+        { type: 'online', text: 'Veteran submits the Legacy Act application to the Texas Veterans Commission to assign hours' },
+        { type: 'in-person', text: "Child applies for the exemption at their school's VA office", repeats: 'semester' }
+      ]
+    },
+    source: {
+      name: 'Texas Veterans Commission',
+      url: 'https://www.tvc.texas.gov/education/hazlewood-act/',
+      lastVerified: null  // Not yet checked against the source
+    },
+    tags: ['education', 'tuition', 'college', 'free tuition', 'children', 'legacy'],
+    relatedBenefits: ['tx-hazlewood'],
+    translations: {
+      es: {
+        summary: 'Los veteranos pueden ceder sus horas Hazlewood no usadas a un hijo para que estudie gratis en universidades públicas de Texas.',
+        description: `La disposición Legacy de la Ley Hazlewood permite que un veterano elegible
+          transfiera a un hijo las horas no usadas de su exención de matrícula de 150 horas.
+          El hijo usa las horas en colegios y universidades públicas de Texas y debe tener
+          25 años o menos el primer día de cada semestre en que use la exención.`,
+        eligibility: {
+          summary: 'Hijo residente de Texas, de 25 años o menos, de un veterano que califica para Hazlewood y le asignó horas.',
+          requirements: [
+            'El veterano sirvió al menos 181 días en servicio activo',
+            'El veterano recibió una baja honorable',
+            'El hijo tiene 25 años o menos el primer día del semestre',
+            'El veterano asignó al hijo horas Hazlewood no usadas',
+            'El hijo es residente de Texas'
+          ]
+        },
+        action: {
+          steps: [
+            'El veterano presenta la solicitud de la Ley Legacy a la Comisión de Veteranos de Texas para asignar las horas',
+            'El hijo solicita la exención en la oficina de asuntos de veteranos (VA) de su escuela'
+          ]
+        }
+      }
+    }
   },
   {
     id: 'tx-property-tax',
@@ -73,13 +209,26 @@ export const texasBenefits: Benefit[] = [
     level: 'state',
     coverage: { states: ['TX'] },
     eligibility: {
-      summary: 'Texas resident with VA disability rating.',
+      summary: 'Texas resident with VA disability rating, or their surviving spouse.',
+      applicants: ['veteran', 'surviving-spouse'],
       requirements: [
         {
           type: 'disability',
-          description: 'Have a VA disability rating of 10% or higher',
+          description: 'Veteran has a VA disability rating of 10% or higher',
           criteria: { minDisabilityRating: 10 }
         },
+        {
+          type: 'family',
+          description: 'Surviving spouses: have not remarried',
+          criteria: {
+            rule: {
+              any: [
+                { field: 'applicantRelationship', op: 'eq', value: 'veteran' },
+                { field: 'hasRemarried', op: 'eq', value: false }
+              ]
+            }
+          }
+        },
         {
           type: 'other',
           description: 'Own property in Texas as your residence'
@@ -89,11 +238,10 @@ export const texasBenefits: Benefit[] = [
     action: {
       type: 'in-person',
       url: 'https://comptroller.texas.gov/taxes/property-tax/exemptions/',
-      instructions: `1. Get VA disability rating letter
-2. Visit your county appraisal district office
-3. Complete the exemption application
-4. Provide DD214 and VA rating letter
-5. File before April 30 for current tax year`
+      documents: ['dd214', 'va-rating-letter'],
+      steps: [
+        { type: 'in-person', text: 'Complete the exemption application at your county appraisal district office', form: 'Comptroller Form 50-135', deadline: '04-30' }
+      ]
     },
     source: {
       name: 'Texas Comptroller',
@@ -101,7 +249,36 @@ export const texasBenefits: Benefit[] = [
       lastVerified: '2025-01-01'
     },
     tags: ['property tax', 'disability', 'exemption', 'housing'],
-    relatedBenefits: ['va-disability']
+    relatedBenefits: ['va-disability'],
+    relationships: [
+      { type: 'requires', benefitId: 'va-disability', note: 'The exemption amount is based on your VA disability rating' }
+    ],
+    translations: {
+      es: {
+        summary: 'Exención total del impuesto a la propiedad para veteranos con una calificación de discapacidad del 100%.',
+        description: `Texas ofrece exenciones del impuesto a la propiedad según la calificación de
+          discapacidad:
+          10-29%: exención de $5,000
+          30-49%: exención de $7,500
+          50-69%: exención de $10,000
+          70-99%: exención de $12,000
+          100%: exención total del impuesto a la propiedad
+          Los cónyuges sobrevivientes también pueden calificar.`,
+        eligibility: {
+          summary: 'Residente de Texas con una calificación de discapacidad de la VA, o su cónyuge sobreviviente.',
+          requirements: [
+            'El veterano tiene una calificación de discapacidad de la VA del 10% o más',
+            'Cónyuges sobrevivientes: no haberse vuelto a casar',
+            'Ser dueño de una propiedad en Texas que use como residencia'
+          ]
+        },
+        action: {
+          steps: [
+            'Llene la solicitud de exención en la oficina del distrito de tasación (appraisal district) de su condado'
+          ]
+        }
+      }
+    }
   },
   {
     id: 'tx-veterans-land-board',
@@ -126,6 +303,7 @@ export const texasBenefits: Benefit[] = [
         {
           type: 'service',
           description: 'Honorable discharge',
+          hard: true,
           criteria: { dischargeTypes: ['honorable'] }
         },
         {
@@ -138,11 +316,11 @@ export const texasBenefits: Benefit[] = [
       type: 'online',
       url: 'https://vlb.texas.gov/',
       phone: '1-800-252-8387',
-      instructions: `1. Check eligibility at vlb.texas.gov
-2. Get pre-qualified online
-3. Find a VLB participating lender
-4. Complete loan application with lender
-5. Provide DD214 and standard mortgage documents`
+      documents: ['dd214', 'mortgage-documents'],
+      steps: [
+        { type: 'online', text: 'Check eligibility and get pre-qualified at vlb.texas.gov' },
+        { type: 'note', text: 'Find a VLB participating lender and complete the loan application with them' }
+      ]
     },
     source: {
       name: 'Texas Veterans Land Board',
@@ -150,7 +328,33 @@ export const texasBenefits: Benefit[] = [
       lastVerified: '2025-01-01'
     },
     tags: ['housing', 'land', 'loan', 'low interest'],
-    relatedBenefits: ['va-home-loan']
+    relatedBenefits: ['va-home-loan'],
+    translations: {
+      es: {
+        summary: 'Préstamos de bajo interés para terrenos, viviendas y mejoras del hogar, exclusivos para veteranos de Texas.',
+        description: `La Junta de Tierras para Veteranos de Texas (Veterans Land Board) ofrece tres
+          programas de préstamos:
+          - Préstamos para terrenos: hasta $150,000 para 5 acres o más
+          - Préstamos para vivienda: hasta $726,200 para comprar una casa
+          - Préstamos para mejoras del hogar: hasta $50,000
+          Ofrecen tasas de interés por debajo del mercado y se pueden combinar con los
+          beneficios del préstamo hipotecario de la VA.`,
+        eligibility: {
+          summary: 'Veterano de Texas con servicio honorable.',
+          requirements: [
+            'Al menos 90 días de servicio activo (salvo baja por una discapacidad relacionada con el servicio)',
+            'Baja honorable',
+            'Residente de Texas o tener la intención de vivir en Texas'
+          ]
+        },
+        action: {
+          steps: [
+            'Verifique su elegibilidad y obtenga la precalificación en vlb.texas.gov',
+            'Busque un prestamista participante del VLB y complete con él la solicitud del préstamo'
+          ]
+        }
+      }
+    }
   },
   {
     id: 'tx-veteran-license-plates',
@@ -174,10 +378,11 @@ export const texasBenefits: Benefit[] = [
     action: {
       type: 'in-person',
       url: 'https://www.txdmv.gov/motorists/license-plates/specialty-license-plates',
-      instructions: `1. Visit your county tax office
-2. Bring DD214 or military orders showing award
-3. For disabled veteran plates: bring VA rating letter
-4. Pay applicable fees (free for 50%+ disabled)`
+      documents: ['dd214', 'award-orders', 'va-rating-letter'],
+      steps: [
+        { type: 'in-person', text: 'Apply at your county tax office' },
+        { type: 'note', text: 'Fees are waived for veterans rated 50% or more' }
+      ]
     },
     source: {
       name: 'Texas DMV',
@@ -185,6 +390,27 @@ export const texasBenefits: Benefit[] = [
       lastVerified: '2025-01-01'
     },
     tags: ['license plates', 'vehicle', 'discount'],
-    relatedBenefits: []
+    relatedBenefits: [],
+    translations: {
+      es: {
+        summary: 'Placas especiales, incluidas placas gratuitas para veteranos con discapacidad.',
+        description: `Texas ofrece varias placas para veteranos. Los veteranos con una calificación de
+          discapacidad del 50% o más reciben un juego de placas gratis. Los veteranos con
+          discapacidad del 100% tienen registro gratuito. Hay placas como Purple Heart,
+          Combat Action Badge, Bronze Star y muchas más.`,
+        eligibility: {
+          summary: 'Veterano con comprobante de servicio o de una condecoración específica.',
+          requirements: [
+            'Comprobante de servicio militar o de una condecoración específica'
+          ]
+        },
+        action: {
+          steps: [
+            'Presente la solicitud en la oficina de impuestos (tax office) de su condado',
+            'No se cobran cargos a los veteranos con una calificación del 50% o más'
+          ]
+        }
+      }
+    }
   }
 ];
@@ -0,0 +1,156 @@
+/**
+ * Documents veterans are asked for
+ *
+ * Benefit actions list the paperwork they need by id, so an action plan
+ * covering several benefits can tell the veteran to find each document
+ * once, along with where to get it.
+ */
+
+import type { Locale } from './schema';
+
+export interface DocumentType {
+  id: string;
+  name: string;
+  howToGet?: string;
+  url?: string;
+  translations?: Partial<Record<Locale, { name?: string; howToGet?: string }>>;
+}
+
+export const DOCUMENT_TYPES: DocumentType[] = [
+  {
+    id: 'dd214',
+    name: 'DD214 (Certificate of Release or Discharge from Active Duty)',
+    howToGet: 'Download it from milConnect or request a copy from the National Archives',
+    url: 'https://www.archives.gov/veterans/military-service-records',
+    translations: {
+      es: {
+        name: 'DD214 (Certificado de baja o licenciamiento del servicio activo)',
+        howToGet: 'Descárguelo de milConnect o pida una copia a los Archivos Nacionales',
+      },
+    },
+  },
+  {
+    id: 'va-rating-letter',
+    name: 'VA disability rating letter (benefit summary letter)',
+    howToGet: 'Download it from VA.gov under "VA letters and documents"',
+    url: 'https://www.va.gov/records/download-va-letters/',
+    translations: {
+      es: {
+        name: 'Carta de calificación de discapacidad de la VA (carta de resumen de beneficios)',
+        howToGet: 'Descárguela en VA.gov, en "VA letters and documents"',
+      },
+    },
+  },
+  {
+    id: 'proof-of-residency',
+    name: 'Proof of residency (driver license, lease or utility bill)',
+    translations: {
+      es: {
+        name: 'Comprobante de domicilio (licencia de conducir, contrato de alquiler o factura de servicios)',
+      },
+    },
+  },
+  {
+    id: 'ssn',
+    name: 'Social Security numbers for you and your dependents',
+    translations: {
+      es: {
+        name: 'Números de Seguro Social suyos y de sus dependientes',
+      },
+    },
+  },
+  {
+    id: 'income-records',
+    name: 'Income information (tax return, pay stubs, benefit statements)',
+    translations: {
+      es: {
+        name: 'Información de ingresos (declaración de impuestos, talones de pago, estados de beneficios)',
+      },
+    },
+  },
+  {
+    id: 'net-worth-records',
+    name: 'Net worth and medical expense records',
+    translations: {
+      es: {
+        name: 'Registros de patrimonio y de gastos médicos',
+      },
+    },
+  },
+  {
+    id: 'medical-records',
+    name: 'Medical records and other evidence about your conditions',
+    translations: {
+      es: {
+        name: 'Expedientes médicos y otras pruebas sobre sus condiciones',
+      },
+    },
+  },
+  {
+    id: 'service-records',
+    name: 'Service treatment and personnel records',
+    howToGet: 'Request them from the National Archives (SF-180) or VA',
+    url: 'https://www.archives.gov/veterans/military-service-records',
+    translations: {
+      es: {
+        name: 'Expedientes médicos y de personal del servicio',
+        howToGet: 'Pídalos a los Archivos Nacionales (SF-180) o a la VA',
+      },
+    },
+  },
+  {
+    id: 'buddy-statements',
+    name: 'Statements from people who know about your condition (VA Form 21-10210)',
+    translations: {
+      es: {
+        name: 'Declaraciones de personas que conocen su condición (VA Form 21-10210)',
+      },
+    },
+  },
+  {
+    id: 'bank-account',
+    name: 'Bank account and routing number for direct deposit',
+    translations: {
+      es: {
+        name: 'Número de cuenta bancaria y de ruta para depósito directo',
+      },
+    },
+  },
+  {
+    id: 'birth-certificate',
+    name: "Child's birth certificate",
+    translations: {
+      es: {
+        name: 'Acta de nacimiento del hijo o hija',
+      },
+    },
+  },
+  {
+    id: 'mortgage-documents',
+    name: 'Standard mortgage documents (income, assets, credit history)',
+    translations: {
+      es: {
+        name: 'Documentos hipotecarios habituales (ingresos, bienes, historial de crédito)',
+      },
+    },
+  },
+  {
+    id: 'award-orders',
+    name: 'Military orders or citation showing the award or decoration',
+    translations: {
+      es: {
+        name: 'Órdenes militares o mención que acredite la condecoración',
+      },
+    },
+  },
+];
+
+/**
+ * Document type with its name and directions in `locale`, English if
+ * there's no translation
+ */
+export function getDocumentType(id: string, locale: Locale = 'en'): DocumentType | undefined {
+  const doc = DOCUMENT_TYPES.find(doc => doc.id === id);
+  const t = doc?.translations?.[locale];
+  return doc && t ? { ...doc, name: t.name ?? doc.name, howToGet: t.howToGet ?? doc.howToGet } : doc;
+}
@@ -0,0 +1,72 @@
+/**
+ * USPS state and territory codes
+ *
+ * FIPS prefixes let us check that a county FIPS code belongs to a state
+ * (Travis County is 48453, and 48 is Texas).
+ * Source: U.S. Census Bureau, ANSI/FIPS state codes
+ */
+
+export interface StateInfo {
+  code: string;     // USPS code, e.g. 'TX'
+  name: string;
+  fips: string;     // 2-digit FIPS prefix
+}
+
+export const US_STATES: Record<string, StateInfo> = {
+  AL: { code: 'AL', name: 'Alabama', fips: '01' },
+  AK: { code: 'AK', name: 'Alaska', fips: '02' },
+  AZ: { code: 'AZ', name: 'Arizona', fips: '04' },
+  AR: { code: 'AR', name: 'Arkansas', fips: '05' },
+  CA: { code: 'CA', name: 'California', fips: '06' },
+  CO: { code: 'CO', name: 'Colorado', fips: '08' },
+  CT: { code: 'CT', name: 'Connecticut', fips: '09' },
+  DE: { code: 'DE', name: 'Delaware', fips: '10' },
+  DC: { code: 'DC', name: 'District of Columbia', fips: '11' },
+  FL: { code: 'FL', name: 'Florida', fips: '12' },
+  GA: { code: 'GA', name: 'Georgia', fips: '13' },
+  HI: { code: 'HI', name: 'Hawaii', fips: '15' },
+  ID: { code: 'ID', name: 'Idaho', fips: '16' },
+  IL: { code: 'IL', name: 'Illinois', fips: '17' },
+  IN: { code: 'IN', name: 'Indiana', fips: '18' },
+  IA: { code: 'IA', name: 'Iowa', fips: '19' },
+  KS: { code: 'KS', name: 'Kansas', fips: '20' },
+  KY: { code: 'KY', name: 'Kentucky', fips: '21' },
+  LA: { code: 'LA', name: 'Louisiana', fips: '22' },
+  ME: { code: 'ME', name: 'Maine', fips: '23' },
+  MD: { code: 'MD', name: 'Maryland', fips: '24' },
+  MA: { code: 'MA', name: 'Massachusetts', fips: '25' },
+  MI: { code: 'MI', name: 'Michigan', fips: '26' },
+  MN: { code: 'MN', name: 'Minnesota', fips: '27' },
+  MS: { code: 'MS', name: 'Mississippi', fips: '28' },
+  MO: { code: 'MO', name: 'Missouri', fips: '29' },
+  MT: { code: 'MT', name: 'Montana', fips: '30' },
+  NE: { code: 'NE', name: 'Nebraska', fips: '31' },
+  NV: { code: 'NV', name: 'Nevada', fips: '32' },
+  NH: { code: 'NH', name: 'New Hampshire', fips: '33' },
+  NJ: { code: 'NJ', name: 'New Jersey', fips: '34' },
+  NM: { code: 'NM', name: 'New Mexico', fips: '35' },
+  NY: { code: 'NY', name: 'New York', fips: '36' },
+  NC: { code: 'NC', name: 'North Carolina', fips: '37' },
+  ND: { code: 'ND', name: 'North Dakota', fips: '38' },
+  OH: { code: 'OH', name: 'Ohio', fips: '39' },
+  OK: { code: 'OK', name: 'Oklahoma', fips: '40' },
+  OR: { code: 'OR', name: 'Oregon', fips: '41' },
+  PA: { code: 'PA', name: 'Pennsylvania', fips: '42' },
+  RI: { code: 'RI', name: 'Rhode Island', fips: '44' },
+  SC: { code: 'SC', name: 'South Carolina', fips: '45' },
+  SD: { code: 'SD', name: 'South Dakota', fips: '46' },
+  TN: { code: 'TN', name: 'Tennessee', fips: '47' },
+  TX: { code: 'TX', name: 'Texas', fips: '48' },
+  UT: { code: 'UT', name: 'Utah', fips: '49' },
+  VT: { code: 'VT', name: 'Vermont', fips: '50' },
+  VA: { code: 'VA', name: 'Virginia', fips: '51' },
+  WA: { code: 'WA', name: 'Washington', fips: '53' },
+  WV: { code: 'WV', name: 'West Virginia', fips: '54' },
+  WI: { code: 'WI', name: 'Wisconsin', fips: '55' },
+  WY: { code: 'WY', name: 'Wyoming', fips: '56' },
+  AS: { code: 'AS', name: 'American Samoa', fips: '60' },
+  GU: { code: 'GU', name: 'Guam', fips: '66' },
+  MP: { code: 'MP', name: 'Northern Mariana Islands', fips: '69' },
+  PR: { code: 'PR', name: 'Puerto Rico', fips: '72' },
+  VI: { code: 'VI', name: 'U.S. Virgin Islands', fips: '78' },
+};
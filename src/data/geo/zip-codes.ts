@@ -0,0 +1,31 @@
+/**
+ * ZIP code geography
+ *
+ * Maps each ZIP to its city and the county (or counties) it covers.
+ * ZIPs don't follow county lines, so a row can list several counties;
+ * the first one is the ZIP's primary county.
+ *
+ * The rows are generated into zip-crosswalk.ts by `npm run geo:import`
+ * (scripts/import-zip-geography.ts), which says where they come from.
+ * Each import gets a new `version`. ZIPs the dataset doesn't have (new,
+ * military or mistyped ones) don't resolve: lookups fall back to federal
+ * benefits and report `resolved: false`.
+ *
+ * Coordinates are the ZIP's approximate center, rounded to 0.01 degrees
+ * (about a kilometer). They're only used for "within N miles" coverage,
+ * so that's precise enough.
+ */
+
+import { zipCrosswalk } from './zip-crosswalk';
+
+export interface ZipDataset {
+  version: string;
+  source: string;
+  counties: Record<string, string>;   // FIPS code -> county name
+  zips: ZipRecord[];
+}
+
+// [zip, city, state code, county FIPS codes (primary first), [latitude, longitude]]
+export type ZipRecord = [string, string, string, string[], [number, number]?];
+
+export const zipDataset: ZipDataset = zipCrosswalk;
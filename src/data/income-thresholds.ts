@@ -0,0 +1,138 @@
+/**
+ * Income threshold tables
+ *
+ * Published income limits that benefit criteria can reference instead
+ * of a fixed number, e.g. { table: 'hhs-poverty-guideline', percent: 200 }.
+ * Each table keeps every edition with its effective dates, so a match
+ * can be evaluated against the limits in effect on any date.
+ *
+ * Amounts are annual USD. `byHouseholdSize[0]` is a household of one;
+ * larger households than listed add `additionalPerPerson` each.
+ *
+ * County tables only list the counties we've imported; others fall back
+ * to the edition's base amounts.
+ */
+
+export interface ThresholdAmounts {
+  byHouseholdSize: number[];
+  additionalPerPerson: number;
+}
+
+export interface ThresholdEdition extends ThresholdAmounts {
+  effectiveFrom: string;                         // ISO date, inclusive
+  effectiveTo?: string;                          // ISO date, inclusive; open if omitted
+  byState?: Record<string, ThresholdAmounts>;    // USPS code overrides
+  byCounty?: Record<string, ThresholdAmounts>;   // County FIPS overrides
+}
+
+export interface IncomeThresholdTable {
+  id: string;
+  name: string;
+  source: { name: string; url: string };
+  varies: 'national' | 'state' | 'county';       // Finest level editions are split by
+  editions: ThresholdEdition[];
+}
+
+export const INCOME_THRESHOLD_TABLES: IncomeThresholdTable[] = [
+  {
+    id: 'hhs-poverty-guideline',
+    name: 'Federal poverty guideline',
+    source: {
+      name: 'U.S. Department of Health and Human Services',
+      url: 'https://aspe.hhs.gov/topics/poverty-economic-mobility/poverty-guidelines',
+    },
+    varies: 'state',
+    editions: [
+      {
+        effectiveFrom: '2024-01-17',
+        effectiveTo: '2025-01-14',
+        byHouseholdSize: [15060],
+        additionalPerPerson: 5380,
+        byState: {
+          AK: { byHouseholdSize: [18810], additionalPerPerson: 6730 },
+          HI: { byHouseholdSize: [17310], additionalPerPerson: 6190 },
+        },
+      },
+      {
+        effectiveFrom: '2025-01-15',
+        byHouseholdSize: [15650],
+        additionalPerPerson: 5500,
+        byState: {
+          AK: { byHouseholdSize: [19550], additionalPerPerson: 6880 },
+          HI: { byHouseholdSize: [17990], additionalPerPerson: 6330 },
+        },
+      },
+    ],
+  },
+  {
+    // Household of one = veteran with no dependents; each dependent adds one
+    id: 'va-pension-mapr',
+    name: 'VA pension Maximum Annual Pension Rate (basic)',
+    source: {
+      name: 'U.S. Department of Veterans Affairs',
+      url: 'https://www.va.gov/pension/veterans-pension-rates/',
+    },
+    varies: 'national',
+    editions: [
+      {
+        effectiveFrom: '2023-12-01',
+        effectiveTo: '2024-11-30',
+        byHouseholdSize: [16551, 21674],
+        additionalPerPerson: 2831,
+      },
+      {
+        effectiveFrom: '2024-12-01',
+        byHouseholdSize: [16965, 22216],
+        additionalPerPerson: 2902,
+      },
+    ],
+  },
+  {
+    // VA health care geographic means test (GMT), published per county each
+    // January. Counties not listed fall back to the national income threshold,
+    // the limit VA applies wherever it's higher than the county's GMT.
+    id: 'va-health-care-gmt',
+    name: 'VA health care geographic means test threshold',
+    source: {
+      name: 'U.S. Department of Veterans Affairs',
+      url: 'https://www.va.gov/health-care/income-limits/',
+    },
+    varies: 'county',
+    editions: [
+      {
+        effectiveFrom: '2025-01-01',
+        byHouseholdSize: [44330, 53196],
+        additionalPerPerson: 3046,
+        byCounty: {
+          // Austin-Round Rock-San Marcos: Travis, Williamson, Hays
+          '48453': {
+            byHouseholdSize: [70650, 80750, 90850, 100900, 109000, 117100, 125150, 133250],
+            additionalPerPerson: 8100,
+          },
+          '48491': {
+            byHouseholdSize: [70650, 80750, 90850, 100900, 109000, 117100, 125150, 133250],
+            additionalPerPerson: 8100,
+          },
+          '48209': {
+            byHouseholdSize: [70650, 80750, 90850, 100900, 109000, 117100, 125150, 133250],
+            additionalPerPerson: 8100,
+          },
+          // San Antonio-New Braunfels: Bexar
+          '48029': {
+            byHouseholdSize: [51750, 59150, 66550, 73900, 79850, 85750, 91650, 97550],
+            additionalPerPerson: 5900,
+          },
+          // Houston-Pasadena-The Woodlands: Harris
+          '48201': {
+            byHouseholdSize: [54800, 62600, 70450, 78250, 84550, 90800, 97050, 103300],
+            additionalPerPerson: 6250,
+          },
+        },
+      },
+    ],
+  },
+];
+
+export function getIncomeThresholdTable(id: string): IncomeThresholdTable | undefined {
+  return INCOME_THRESHOLD_TABLES.find(table => table.id === id);
+}
@@ -0,0 +1,273 @@
+/**
+ * Runtime schema for benefit records
+ *
+ * Mirrors the Benefit interface in ./schema so records loaded from
+ * JSON/YAML data files get the same guarantees as the TypeScript ones,
+ * and VeteranProfile so API input can be checked before matching.
+ * The `z.ZodType<...>` annotations make the compiler flag any drift
+ * between the two. Dates, service era ids and income table ids are
+ * checked here too, since matching throws on values it can't interpret.
+ */
+
+import { z } from 'zod';
+import type {
+  Benefit,
+  BenefitTranslation,
+  EligibilityRequirement,
+  EligibilityRule,
+  IncomeLimit,
+  RuleComparison,
+  ServicePeriod,
+  VeteranProfile,
+} from './schema';
+import { getIncomeThresholdTable } from './income-thresholds';
+import { getServiceEra } from './service-eras';
+
+// A real calendar date, so date math downstream never sees an Invalid Date
+const isoDate = z.string().refine(
+  value => /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(Date.parse(value)) &&
+    new Date(value).toISOString().slice(0, 10) === value,
+  'must be an ISO date (YYYY-MM-DD)'
+);
+
+const ruleFieldSchema = z.enum([
+  'zipCode',
+  'state',
+  'county',
+  'stateResidencyMonths',
+  'servicePeriods',
+  'entryState',
+  'serviceEras',
+  'branchOfService',
+  'dischargeStatus',
+  'yearsOfService',
+  'age',
+  'disabilityRating',
+  'incomeLevel',
+  'householdIncome',
+  'householdSize',
+  'hasSpouse',
+  'hasDependents',
+  'isSurvivor',
+  'dependents',
+  'applicantRelationship',
+  'applicantAge',
+  'applicantIsStudent',
+  'hasRemarried',
+  'veteranDeceased',
+  'deathServiceConnected',
+  'serviceDays',
+  'qualifyingChildren',
+]);
+
+export const actionTypeSchema = z.enum(['online', 'phone', 'in-person', 'mail']);
+
+export const benefitCategorySchema = z.enum([
+  'healthcare',
+  'disability',
+  'education',
+  'housing',
+  'employment',
+  'financial',
+  'burial',
+  'family',
+]);
+
+export const benefitLevelSchema = z.enum(['federal', 'state', 'county', 'city', 'nonprofit']);
+
+const applicantRelationshipSchema = z.enum([
+  'veteran',
+  'spouse',
+  'surviving-spouse',
+  'child',
+  'parent',
+  'caregiver',
+]);
+
+const incomeLimitSchema: z.ZodType<IncomeLimit> = z.object({
+  table: z.string().refine(id => getIncomeThresholdTable(id) !== undefined, 'unknown income threshold table'),
+  percent: z.number().positive().optional(),
+}).strict();
+
+const ruleComparisonSchema: z.ZodType<RuleComparison> = z.object({
+  field: ruleFieldSchema,
+  op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'contains', 'exists']),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional(),
+  era: z.string().refine(id => getServiceEra(id) !== undefined, 'unknown service era').optional(),
+  threshold: incomeLimitSchema.optional(),
+}).strict();
+
+export const eligibilityRuleSchema: z.ZodType<EligibilityRule> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(eligibilityRuleSchema).min(1) }).strict(),
+    z.object({ any: z.array(eligibilityRuleSchema).min(1) }).strict(),
+    z.object({ not: eligibilityRuleSchema }).strict(),
+    ruleComparisonSchema,
+  ])
+);
+
+export const eligibilityRequirementSchema: z.ZodType<EligibilityRequirement> = z.object({
+  type: z.enum(['service', 'disability', 'income', 'age', 'family', 'other']),
+  description: z.string().min(1),
+  weight: z.number().positive().optional(),
+  hard: z.boolean().optional(),
+  effectiveFrom: isoDate.optional(),
+  effectiveTo: isoDate.optional(),
+  criteria: z.object({
+    minServiceDays: z.number().int().nonnegative().optional(),
+    dischargeTypes: z.array(z.string()).min(1).optional(),
+    minDisabilityRating: z.number().min(0).max(100).optional(),
+    maxIncome: z.number().nonnegative().optional(),
+    incomeLimit: incomeLimitSchema.optional(),
+    minAge: z.number().int().nonnegative().optional(),
+    maxAge: z.number().int().nonnegative().optional(),
+    requiresSpouse: z.boolean().optional(),
+    relationships: z.array(applicantRelationshipSchema).min(1).optional(),
+    maxApplicantAge: z.number().int().nonnegative().optional(),
+    rule: eligibilityRuleSchema.optional(),
+  }).strict().optional(),
+}).strict();
+
+const benefitTranslationSchema: z.ZodType<BenefitTranslation> = z.object({
+  name: z.string().min(1).optional(),
+  summary: z.string().min(1).optional(),
+  description: z.string().min(1).optional(),
+  eligibility: z.object({
+    summary: z.string().min(1).optional(),
+    requirements: z.array(z.string().min(1)).optional(),
+  }).strict().optional(),
+  action: z.object({
+    steps: z.array(z.string().min(1)).optional(),
+    instructions: z.string().min(1).optional(),
+  }).strict().optional(),
+}).strict();
+
+export const benefitSchema: z.ZodType<Benefit> = z.object({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'must be lowercase-kebab-case'),
+  name: z.string().min(1),
+  summary: z.string().min(1),
+  description: z.string().min(1),
+  category: benefitCategorySchema,
+  level: benefitLevelSchema,
+
+  coverage: z.object({
+    states: z.array(z.string()).optional(),
+    counties: z.array(z.string()).optional(),
+    cities: z.array(z.string()).optional(),
+    zipCodes: z.array(z.string().regex(/^\d{5}$/, 'must be a 5-digit ZIP')).optional(),
+    radius: z.object({
+      zip: z.string().regex(/^\d{5}$/, 'must be a 5-digit ZIP'),
+      miles: z.number().positive(),
+    }).strict().optional(),
+  }).strict(),
+
+  eligibility: z.object({
+    summary: z.string().min(1),
+    applicants: z.array(applicantRelationshipSchema).min(1).optional(),
+    requirements: z.array(eligibilityRequirementSchema),
+  }).strict(),
+
+  action: z.object({
+    type: actionTypeSchema,
+    url: z.string().url().optional(),
+    phone: z.string().optional(),
+    address: z.string().optional(),
+    formNumber: z.string().optional(),
+    steps: z.array(z.object({
+      type: z.union([actionTypeSchema, z.literal('note')]),
+      text: z.string().min(1),
+      form: z.string().optional(),
+      url: z.string().url().optional(),
+      phone: z.string().optional(),
+      address: z.string().optional(),
+      repeats: z.enum(['semester', 'year']).optional(),
+      deadline: z.string().regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'must be MM-DD').optional(),
+    }).strict()).min(1).optional(),
+    documents: z.array(z.string()).optional(),
+    instructions: z.string().min(1).optional(),
+  }).strict(),
+
+  source: z.object({
+    name: z.string().min(1),
+    url: z.string().url(),
+    lastVerified: isoDate.nullable(),
+  }).strict(),
+
+  value: z.object({
+    annual: z.number().nonnegative().optional(),
+    annualByDisabilityRating: z.record(
+      z.string().regex(/^(0|[1-9]0|100)$/, 'must be a rating from 0 to 100 in steps of 10'),
+      z.number().nonnegative()
+    ).optional(),
+    basis: z.string().min(1),
+  }).strict().optional(),
+
+  effectiveFrom: isoDate.optional(),
+  effectiveTo: isoDate.optional(),
+
+  tags: z.array(z.string()),
+  relatedBenefits: z.array(z.string()).optional(),
+  relationships: z.array(z.object({
+    type: z.enum(['requires', 'excludes', 'stacks-with', 'use-before']),
+    benefitId: z.string(),
+    note: z.string().min(1).optional(),
+  }).strict()).optional(),
+
+  translations: z.object({
+    en: benefitTranslationSchema.optional(),
+    es: benefitTranslationSchema.optional(),
+  }).strict().optional(),
+}).strict();
+
+const servicePeriodSchema: z.ZodType<ServicePeriod> = z.object({
+  entryDate: isoDate,
+  separationDate: isoDate.nullable().optional(),
+  dutyType: z.enum(['active', 'active-training', 'inactive-training']),
+  branch: z.string().optional(),
+  dischargeStatus: z.string().optional(),
+}).strict();
+
+export const veteranProfileSchema: z.ZodType<VeteranProfile> = z.object({
+  zipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'must be a 5-digit ZIP'),
+  state: z.string().length(2).optional(),
+  county: z.string().optional(),
+  stateResidencyMonths: z.number().int().nonnegative().optional(),
+
+  servicePeriods: z.array(servicePeriodSchema).optional(),
+  entryState: z.string().length(2).optional(),
+  serviceEras: z.array(z.string()).optional(),
+  branchOfService: z.string().optional(),
+  dischargeStatus: z.string().optional(),
+  yearsOfService: z.number().nonnegative().optional(),
+  serviceDays: z.number().int().nonnegative().optional(),
+
+  age: z.number().int().nonnegative().optional(),
+  disabilityRating: z.number().min(0).max(100).optional(),
+  incomeLevel: z.enum(['low', 'medium', 'high']).optional(),
+  householdIncome: z.number().nonnegative().optional(),
+  householdSize: z.number().int().positive().optional(),
+
+  hasSpouse: z.boolean().optional(),
+  hasDependents: z.boolean().optional(),
+  isSurvivor: z.boolean().optional(),
+  dependents: z.array(z.object({
+    relationship: z.enum(['spouse', 'child', 'parent']),
+    age: z.number().int().nonnegative().optional(),
+    isStudent: z.boolean().optional(),
+    isDisabled: z.boolean().optional(),
+  }).strict()).optional(),
+
+  applicantRelationship: applicantRelationshipSchema.optional(),
+  applicantAge: z.number().int().nonnegative().optional(),
+  applicantIsStudent: z.boolean().optional(),
+  hasRemarried: z.boolean().optional(),
+  veteranDeceased: z.boolean().optional(),
+  deathServiceConnected: z.boolean().optional(),
+}).strict();
+
+// POST /api/compare: one profile, 2-5 ZIPs to compare
+export const compareRequestSchema = z.object({
+  profile: veteranProfileSchema,
+  zips: z.array(z.string().regex(/^\d{5}(-\d{4})?$/, 'must be a 5-digit ZIP')).min(2).max(5),
+}).strict();
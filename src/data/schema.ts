@@ -36,77 +36,286 @@ export interface Benefit {
     counties?: string[];     // FIPS codes
     cities?: string[];       // City names + state
     zipCodes?: string[];     // Specific zips if hyper-local
+    radius?: {               // Within some miles of a ZIP's center, e.g. a nonprofit's office
+      zip: string;
+      miles: number;
+    };
   };
 
   // Who qualifies
   eligibility: {
     summary: string;         // Plain language
+    applicants?: ApplicantRelationship[];  // Who can apply; default ['veteran']
     requirements: EligibilityRequirement[];
   };
 
   // What to do
-  action: {
-    type: 'online' | 'phone' | 'in-person' | 'mail';
-    url?: string;
-    phone?: string;
-    address?: string;
-    formNumber?: string;     // e.g., "VA Form 21-526EZ"
-    instructions: string;    // Step by step
-  };
+  action: BenefitAction;
 
   // Trust signals
   source: {
     name: string;            // "U.S. Department of Veterans Affairs"
     url: string;             // Official source link
-    lastVerified: string;    // ISO date
+    lastVerified: string | null;  // ISO date; null until someone checks the record against the source
   };
 
+  // Rough yearly value to the veteran, for ranking by impact
+  value?: BenefitValue;
+
+  // Dates this version of the benefit applies (ISO, inclusive; open if omitted)
+  effectiveFrom?: string;
+  effectiveTo?: string;
+
   // Metadata
   tags: string[];
   relatedBenefits?: string[]; // IDs of related benefits
+  relationships?: BenefitRelationship[];  // How this benefit interacts with others
+
+  // Text in other languages; the fields above are English
+  translations?: Partial<Record<Locale, BenefitTranslation>>;
+}
+
+export type Locale = 'en' | 'es';
+
+// One language's text for a benefit. Anything left out falls back to English.
+// Requirements and steps are listed in the same order as the English ones.
+export interface BenefitTranslation {
+  name?: string;             // Usually left out; program names stay official
+  summary?: string;
+  description?: string;
+  eligibility?: {
+    summary?: string;
+    requirements?: string[]; // Requirement descriptions
+  };
+  action?: {
+    steps?: string[];        // Step text
+    instructions?: string;
+  };
+}
+
+export type ActionType = 'online' | 'phone' | 'in-person' | 'mail';
+
+export interface BenefitAction {
+  type: ActionType;          // Main way to apply
+  url?: string;
+  phone?: string;
+  address?: string;
+  formNumber?: string;       // Main application form, e.g., "VA Form 21-526EZ"
+  steps?: ActionStep[];      // In order
+  documents?: string[];      // Paperwork to have ready; ids from src/data/documents.ts
+  instructions?: string;     // Free-text steps, for records without `steps`
+}
+
+export interface ActionStep {
+  type: ActionType | 'note';     // How the step is done; 'note' is just information
+  text: string;
+  form?: string;                 // Form filed in this step, e.g., "VA Form 21-8940"
+  url?: string;
+  phone?: string;                // Defaults to the action's phone for phone steps
+  address?: string;
+  repeats?: 'semester' | 'year'; // Has to be done again every term / year
+  deadline?: string;             // Yearly due date, MM-DD
+}
+
+// requires:    this benefit needs the other one first (e.g. a VA rating)
+// excludes:    can't receive both for the same period
+// stacks-with: can be received together
+// use-before:  apply/use this one before the other when eligible for both
+export type BenefitRelationshipType = 'requires' | 'excludes' | 'stacks-with' | 'use-before';
+
+export interface BenefitRelationship {
+  type: BenefitRelationshipType;
+  benefitId: string;
+  note?: string;                 // Plain-language explanation shown to the veteran
+}
+
+export interface BenefitValue {
+  annual?: number;                              // USD per year
+  annualByDisabilityRating?: Record<string, number>;  // '10' ... '100' -> USD per year
+  basis: string;                                // Where the estimate comes from
 }
 
 export interface EligibilityRequirement {
   type: 'service' | 'disability' | 'income' | 'age' | 'family' | 'other';
   description: string;
+  weight?: number;               // Relative importance in the score (default: see scoring.ts)
+  hard?: boolean;                // Failing it rules the benefit out (default: see scoring.ts)
+  effectiveFrom?: string;        // ISO date the requirement starts applying
+  effectiveTo?: string;          // ISO date it stops applying (inclusive)
   // Structured data for matching (optional, for automated eligibility)
+  // Shorthand keys are ANDed together; `rule` is ANDed with them.
   criteria?: {
     minServiceDays?: number;
     dischargeTypes?: string[];   // 'honorable', 'general', etc.
     minDisabilityRating?: number;
     maxIncome?: number;
+    incomeLimit?: IncomeLimit;   // Published table instead of a fixed maxIncome
     minAge?: number;
     maxAge?: number;
+    requiresSpouse?: boolean;
+    relationships?: ApplicantRelationship[];  // Applicant must be one of these
+    maxApplicantAge?: number;    // e.g. Hazlewood Legacy: child 25 or younger
+    rule?: EligibilityRule;      // Full boolean rule when shorthand isn't enough
   };
 }
 
+/**
+ * Composable eligibility rule
+ *
+ * Example (Hazlewood):
+ *   { all: [
+ *     { field: 'serviceDays', op: 'gte', value: 181 },
+ *     { field: 'dischargeStatus', op: 'in', value: ['honorable'] },
+ *     { any: [
+ *       { field: 'entryState', op: 'eq', value: 'TX' },
+ *       { all: [
+ *         { field: 'state', op: 'eq', value: 'TX' },
+ *         { field: 'stateResidencyMonths', op: 'gte', value: 12 },
+ *       ] },
+ *     ] },
+ *   ] }
+ */
+export type EligibilityRule =
+  | { all: EligibilityRule[] }
+  | { any: EligibilityRule[] }
+  | { not: EligibilityRule }
+  | RuleComparison;
+
+export interface RuleComparison {
+  field: RuleField;
+  op: RuleOperator;
+  value?: RuleValue;             // Omitted for 'exists'
+  era?: string;                  // serviceDays only: count days within this era (see service-eras.ts)
+  threshold?: IncomeLimit;       // Compare against a published table instead of `value`
+}
+
+// A limit looked up from a dated table in income-thresholds.ts
+export interface IncomeLimit {
+  table: string;                 // Table id, e.g. 'hhs-poverty-guideline'
+  percent?: number;              // Percent of the table amount (default 100)
+}
+
+// Profile fields, some filled in from others when not given
+// (serviceDays, serviceEras, applicantAge, isSurvivor, hasDependents),
+// plus values derived from the profile
+export type RuleField = keyof VeteranProfile | 'qualifyingChildren';
+
+export type RuleOperator =
+  | 'eq' | 'neq'
+  | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'in' | 'notIn'               // Field value is one of a list
+  | 'contains'                   // List field includes a value
+  | 'exists';
+
+export type RuleValue = string | number | boolean | string[];
+
+export type RuleOutcome = 'met' | 'not-met' | 'unknown';
+
+// One comparison as evaluated against a profile
+export interface RuleCheck {
+  field: RuleField;
+  op: RuleOperator;
+  expected?: RuleValue;          // What the rule compared against
+  era?: string;
+  threshold?: IncomeLimit;       // Where `expected` came from, for table-based limits
+  missing?: RuleField[];         // Profile fields we'd need to decide an unknown check
+  actual: unknown;               // What the profile had (undefined = not provided)
+  outcome: RuleOutcome;
+}
+
+// Discharge characterizations, in the form benefit criteria use
+export const DISCHARGE_STATUSES = [
+  'honorable',
+  'general',
+  'other-than-honorable',
+  'bad-conduct',
+  'dishonorable',
+  'uncharacterized',
+] as const;
+
+export type DischargeStatus = typeof DISCHARGE_STATUSES[number];
+
 export interface VeteranProfile {
   // Location
   zipCode: string;
   state?: string;
   county?: string;
+  stateResidencyMonths?: number; // How long the applicant has lived in `state`
 
   // Service
+  servicePeriods?: ServicePeriod[];  // Most precise; days and eras are derived from these
+  entryState?: string;           // State of residence when entering service (home of record)
   serviceEras?: string[];        // 'vietnam', 'gulf', 'post-911', etc.
   branchOfService?: string;
   dischargeStatus?: string;
-  yearsOfService?: number;
+  yearsOfService?: number;       // Rough estimate when periods aren't known
+  serviceDays?: number;          // Exact active-duty days, when known
 
   // Current situation
+  age?: number;
   disabilityRating?: number;     // 0-100
   incomeLevel?: 'low' | 'medium' | 'high';
+  householdIncome?: number;      // Annual, USD, everyone in the household
+  householdSize?: number;        // Including the veteran
 
   // Family
   hasSpouse?: boolean;
   hasDependents?: boolean;
   isSurvivor?: boolean;          // Spouse/child of deceased veteran
+  dependents?: Dependent[];
+
+  // Applicant. Defaults to the veteran; when a survivor or dependent
+  // applies, the service and disability fields above describe the veteran.
+  applicantRelationship?: ApplicantRelationship;
+  applicantAge?: number;
+  applicantIsStudent?: boolean;
+  hasRemarried?: boolean;        // Surviving spouses
+  veteranDeceased?: boolean;
+  deathServiceConnected?: boolean;
+}
+
+export type ApplicantRelationship =
+  | 'veteran'
+  | 'spouse'
+  | 'surviving-spouse'
+  | 'child'
+  | 'parent'
+  | 'caregiver';
+
+export interface Dependent {
+  relationship: 'spouse' | 'child' | 'parent';
+  age?: number;
+  isStudent?: boolean;
+  isDisabled?: boolean;          // Became permanently disabled before 18
 }
 
+export interface ServicePeriod {
+  entryDate: string;             // ISO date
+  separationDate?: string | null; // ISO date; omitted/null while still serving
+  dutyType: 'active' | 'active-training' | 'inactive-training';
+  branch?: string;
+  dischargeStatus?: string;
+}
+
+export type EligibilityStatus = 'likely' | 'possible' | 'unlikely' | 'unknown';
+
 // Result of matching a veteran to benefits
 export interface BenefitMatch {
   benefit: Benefit;
   matchScore: number;            // 0-100, how well they match
-  eligibilityStatus: 'likely' | 'possible' | 'unlikely' | 'unknown';
+  eligibilityStatus: EligibilityStatus;
+  confidence: number;            // 0-1, share of the requirements we could actually check
+  estimatedAnnualValue?: number; // USD per year, when the benefit has a value estimate
+  stale: boolean;                // Past its re-verification date; details may be out of date
   matchedRequirements: string[]; // Which requirements they meet
   missingInfo: string[];         // What we'd need to know to be certain
+  trace: RequirementTrace[];     // How each requirement was evaluated
+}
+
+// Why a requirement was met, failed, or couldn't be checked
+export interface RequirementTrace {
+  requirement: EligibilityRequirement;
+  outcome: RuleOutcome;
+  fields: RuleField[];           // Profile fields the requirement read
+  checks: RuleCheck[];           // Empty when there are no structured criteria
 }
@@ -0,0 +1,29 @@
+/**
+ * Service eras
+ *
+ * Canonical date ranges benefit criteria can reference by id, e.g.
+ * { field: 'serviceDays', op: 'gte', value: 90, era: 'post-911' }.
+ * Ranges follow VA's definitions (38 CFR 3.2), except that we split the
+ * open-ended Gulf War period at September 11, 2001 so Post-9/11
+ * programs can reference it directly.
+ */
+
+export interface ServiceEra {
+  id: string;
+  name: string;
+  start: string;             // ISO date, inclusive
+  end: string | null;        // ISO date, inclusive; null = ongoing
+}
+
+export const SERVICE_ERAS: ServiceEra[] = [
+  { id: 'wwii', name: 'World War II', start: '1941-12-07', end: '1946-12-31' },
+  { id: 'korea', name: 'Korean Conflict', start: '1950-06-27', end: '1955-01-31' },
+  // Starts 1961-11-01 for veterans who served in the Republic of Vietnam
+  { id: 'vietnam', name: 'Vietnam Era', start: '1964-08-05', end: '1975-05-07' },
+  { id: 'gulf', name: 'Gulf War', start: '1990-08-02', end: '2001-09-10' },
+  { id: 'post-911', name: 'Post-9/11', start: '2001-09-11', end: null },
+];
+
+export function getServiceEra(id: string): ServiceEra | undefined {
+  return SERVICE_ERAS.find(era => era.id === id);
+}
@@ -0,0 +1,137 @@
+/**
+ * Action plan
+ *
+ * Turns a veteran's likely and possible matches into one checklist:
+ * documents to gather (each listed once, with every benefit that needs
+ * it), forms to file, and the steps for each benefit in the order from
+ * planApplications. Identical steps shared by several benefits, like
+ * "apply for VA health care first", appear once.
+ *
+ * Step text comes from the matched benefits, so match with a locale to
+ * get a plan in that language; document names and deadlines follow the
+ * plan's locale.
+ */
+
+import type { ActionStep, BenefitAction, BenefitMatch, Locale } from '../data/schema';
+import { getDocumentType } from '../data/documents';
+import { DEFAULT_LOCALE, formatMonthDay } from './i18n';
+import { planApplications } from './stacking';
+
+export interface PlanDocument {
+  id: string;
+  name: string;
+  howToGet?: string;
+  url?: string;
+  neededFor: string[];           // Benefit ids
+}
+
+export interface PlanForm {
+  form: string;                  // e.g. "VA Form 21-526EZ"
+  benefitIds: string[];
+}
+
+export interface PlanStep extends ActionStep {
+  benefitIds: string[];          // Benefits this step is for
+  deadlineText?: string;         // deadline written out, e.g. "April 30"
+}
+
+export interface ActionPlan {
+  locale: Locale;
+  benefitIds: string[];          // In application order
+  documents: PlanDocument[];
+  forms: PlanForm[];
+  steps: PlanStep[];
+}
+
+/**
+ * Steps for an action. Records without structured steps get one step
+ * per line of their free-text instructions.
+ */
+export function actionSteps(action: BenefitAction): ActionStep[] {
+  const steps: ActionStep[] = action.steps ?? (action.instructions ?? '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\d+[.)]\s*/, '').trim())
+    .filter(Boolean)
+    .map(text => ({ type: action.type, text }));
+
+  // Phone steps without their own number use the benefit's
+  return steps.map(step =>
+    step.type === 'phone' && !step.phone && action.phone ? { ...step, phone: action.phone } : step
+  );
+}
+
+/**
+ * Combined plan for the matches worth pursuing ('likely' and 'possible')
+ */
+export function buildActionPlan(
+  matches: BenefitMatch[],
+  locale: Locale = DEFAULT_LOCALE
+): ActionPlan {
+  const worthPursuing = matches.filter(match =>
+    match.eligibilityStatus === 'likely' || match.eligibilityStatus === 'possible'
+  );
+  const byId = new Map(worthPursuing.map(match => [match.benefit.id, match.benefit]));
+  const order = planApplications(worthPursuing).order.map(step => step.benefitId);
+
+  const documents = new Map<string, PlanDocument>();
+  const forms = new Map<string, PlanForm>();
+  const steps = new Map<string, PlanStep>();
+
+  for (const benefitId of order) {
+    const { action } = byId.get(benefitId)!;
+
+    for (const id of action.documents ?? []) {
+      const type = getDocumentType(id, locale);
+      const entry = documents.get(id) ?? {
+        id,
+        name: type?.name ?? id,
+        ...(type?.howToGet ? { howToGet: type.howToGet } : {}),
+        ...(type?.url ? { url: type.url } : {}),
+        neededFor: [],
+      };
+      entry.neededFor.push(benefitId);
+      documents.set(id, entry);
+    }
+
+    const benefitSteps = actionSteps(action);
+    const formNumbers = [
+      action.formNumber,
+      ...benefitSteps.map(step => step.form),
+    ].filter((form): form is string => !!form);
+    for (const form of formNumbers) {
+      const key = normalizeForm(form);
+      const entry = forms.get(key) ?? { form, benefitIds: [] };
+      if (!entry.benefitIds.includes(benefitId)) entry.benefitIds.push(benefitId);
+      forms.set(key, entry);
+    }
+
+    for (const step of benefitSteps) {
+      const key = [step.type, step.text.trim().toLowerCase(), step.form, step.url].join('|');
+      const existing = steps.get(key);
+      if (existing) {
+        existing.benefitIds.push(benefitId);
+      } else {
+        steps.set(key, {
+          ...step,
+          benefitIds: [benefitId],
+          ...(step.deadline ? { deadlineText: formatMonthDay(step.deadline, locale) } : {}),
+        });
+      }
+    }
+  }
+
+  return {
+    locale,
+    benefitIds: order,
+    documents: [...documents.values()].sort((a, b) => b.neededFor.length - a.neededFor.length),
+    forms: [...forms.values()],
+    steps: [...steps.values()],
+  };
+}
+
+/**
+ * "VA Form 21-526EZ" and "va form 21-526ez" are the same form
+ */
+function normalizeForm(form: string): string {
+  return form.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,447 @@
+/**
+ * HTTP API handlers
+ *
+ * Framework-free request handlers behind the routes in src/app/api.
+ * They take a standard Request and return a standard Response, so they
+ * can be called directly in tests or scripts.
+ *
+ * Errors always use the same body:
+ *   { "error": { "code": "invalid_zip", "message": "...", "details": [...] } }
+ *
+ * Benefit text and explanations are in English unless the request asks
+ * for another language with `?locale=es` or Accept-Language.
+ */
+
+import { join } from 'path';
+import type { Benefit, Locale, VeteranProfile } from '../data/schema';
+import { z } from 'zod';
+import {
+  actionTypeSchema,
+  benefitCategorySchema,
+  benefitLevelSchema,
+  compareRequestSchema,
+  veteranProfileSchema,
+} from '../data/runtime-schema';
+import { buildActionPlan } from './action-plan';
+import { loadBenefitCatalog, type BenefitCatalog } from './catalog';
+import type { DataFileError } from './data-loader';
+import { compareLocations } from './compare';
+import { buildBenefitCalendar } from './export/calendar';
+import { renderBenefitReportPdf } from './export/report';
+import { getZipDatasetVersion, lookupZipCode, normalizeZip } from './geography';
+import { localizeBenefit, resolveLocale } from './i18n';
+import { groupBenefitsByCategory, matchBenefits } from './lookup';
+import { createSearchIndex, type BenefitSearchIndex, type SearchFacets } from './search';
+import { planApplications } from './stacking';
+import { catalogHistoryDir, FileCatalogHistory } from './versioning';
+
+export type ApiErrorCode =
+  | 'invalid_zip'
+  | 'invalid_profile'
+  | 'invalid_json'
+  | 'invalid_date'
+  | 'invalid_query'
+  | 'unknown_benefit'
+  | 'unknown_version';
+
+// Benefit data changes when it's re-verified, which is rare; let clients
+// and CDNs reuse responses for a day and revalidate with If-None-Match
+// or If-Modified-Since.
+const MAX_AGE_SECONDS = 24 * 60 * 60;
+
+let catalogPromise: Promise<{ catalog: BenefitCatalog; errors: DataFileError[] }> | null = null;
+
+/**
+ * Catalog used by the API: compiled benefits plus data/benefits files,
+ * with the records that were skipped (see loadBenefitCatalog; npm run
+ * validate reports the same problems). Loaded once per server process;
+ * a failed load is retried on the next call.
+ */
+export function loadApiCatalog(): Promise<{ catalog: BenefitCatalog; errors: DataFileError[] }> {
+  if (!catalogPromise) {
+    const promise = loadBenefitCatalog(join(process.cwd(), 'data/benefits'));
+    promise.catch(() => {
+      if (catalogPromise === promise) catalogPromise = null;
+    });
+    catalogPromise = promise;
+  }
+  return catalogPromise;
+}
+
+export async function getApiCatalog(): Promise<BenefitCatalog> {
+  return (await loadApiCatalog()).catalog;
+}
+
+/**
+ * GET /api/benefits?zip=78701
+ *
+ * `resolved: false` means the ZIP isn't in our geography data yet, so
+ * only federal benefits are listed.
+ */
+export async function handleGetBenefits(request: Request): Promise<Response> {
+  const zip = normalizeZip(new URL(request.url).searchParams.get('zip') ?? '');
+  if (!zip) {
+    return errorResponse(400, 'invalid_zip', 'zip must be a 5-digit ZIP code');
+  }
+
+  const locale = requestLocale(request);
+  const catalog = await getApiCatalog();
+  const result = catalog.forLocation(zip, locale);
+
+  return cachedJson(request, catalog, locale, result.benefits, {
+    zip,
+    resolved: result.resolved,
+    locations: result.locations,
+    ambiguous: result.ambiguous,
+    ambiguousBenefitIds: result.ambiguousBenefitIds,
+    benefits: result.benefits,
+  });
+}
+
+/**
+ * GET /api/benefits/:id
+ */
+export async function handleGetBenefit(request: Request, id: string): Promise<Response> {
+  const catalog = await getApiCatalog();
+  const benefit = catalog.getById(id);
+  if (!benefit) {
+    return errorResponse(404, 'unknown_benefit', `No benefit with id "${id}"`);
+  }
+
+  const locale = requestLocale(request);
+  return cachedJson(request, catalog, locale, [benefit], {
+    benefit: localizeBenefit(benefit, locale),
+    related: catalog.getRelated(id).map(related => localizeBenefit(related, locale)),
+  });
+}
+
+const searchIndexes = new WeakMap<BenefitCatalog, BenefitSearchIndex>();
+
+// Facet query params, after splitting on commas
+const searchFacetsSchema = z.object({
+  category: z.array(benefitCategorySchema),
+  level: z.array(benefitLevelSchema),
+  action: z.array(actionTypeSchema),
+});
+
+/**
+ * GET /api/search?q=gi+bill&zip=78701&category=education,housing
+ *
+ * Facet params (category, level, action, state) take comma-separated
+ * values; an unknown category, level or action is a 400. `limit` caps
+ * the number of hits.
+ */
+export async function handleSearch(request: Request): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const list = (name: string) =>
+    params.getAll(name).flatMap(value => value.split(',')).map(v => v.trim()).filter(Boolean);
+
+  const zipParam = params.get('zip');
+  const zip = zipParam ? normalizeZip(zipParam) : undefined;
+  if (zip === null) {
+    return errorResponse(400, 'invalid_zip', 'zip must be a 5-digit ZIP code');
+  }
+
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : undefined;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    return errorResponse(400, 'invalid_query', 'limit must be a positive integer');
+  }
+
+  const catalog = await getApiCatalog();
+  let index = searchIndexes.get(catalog);
+  if (!index) {
+    index = createSearchIndex(catalog.benefits);
+    searchIndexes.set(catalog, index);
+  }
+
+  const parsed = searchFacetsSchema.safeParse({
+    category: list('category'),
+    level: list('level'),
+    action: list('action'),
+  });
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    return errorResponse(400, 'invalid_query', 'Unknown category, level or action', details);
+  }
+
+  const facets: SearchFacets = {
+    category: parsed.data.category,
+    level: parsed.data.level,
+    actionType: parsed.data.action,
+    state: list('state').map(code => code.toUpperCase()),
+  };
+  const results = index.search({ text: params.get('q') ?? '', zipCode: zip, facets, limit });
+
+  // Queries match the English text; results come back in the requested locale
+  const locale = requestLocale(request);
+  return cachedJson(request, catalog, locale, results.hits.map(hit => hit.benefit), {
+    query: params.get('q') ?? '',
+    zip: zip ?? null,
+    total: results.total,
+    facets: results.facets,
+    hits: results.hits.map(hit => ({ ...hit, benefit: localizeBenefit(hit.benefit, locale) })),
+  });
+}
+
+/**
+ * POST /api/match with a VeteranProfile as the JSON body.
+ * `?rankBy=value` orders each category by expected yearly value.
+ * `?asOf=2024-06-01&version=<id>` re-runs a match against a stored
+ * catalog version and the rules in effect on that date. As with
+ * /api/benefits, `resolved: false` means only federal benefits were checked.
+ */
+export async function handleMatch(request: Request): Promise<Response> {
+  const parsed = await readProfile(request);
+  if (parsed instanceof Response) return parsed;
+
+  const params = new URL(request.url).searchParams;
+  const asOfParam = params.get('asOf');
+  const asOf = asOfParam ? parseIsoDate(asOfParam) : new Date();
+  if (!asOf) {
+    return errorResponse(400, 'invalid_date', 'asOf must be a date (YYYY-MM-DD)');
+  }
+
+  let version: string;
+  let benefits: Benefit[];
+  const requestedVersion = params.get('version');
+  if (requestedVersion) {
+    // Published snapshots, see npm run catalog:snapshot
+    const history = new FileCatalogHistory(catalogHistoryDir());
+    const snapshot = /^[0-9a-f]+$/.test(requestedVersion)
+      ? await history.load(requestedVersion)
+      : null;
+    if (!snapshot) {
+      return errorResponse(404, 'unknown_version', `No catalog version "${requestedVersion}"`);
+    }
+    ({ version, benefits } = snapshot);
+  } else {
+    const catalog = await getApiCatalog();
+    version = catalog.version;
+    benefits = [...catalog.benefits];
+  }
+
+  const locale = requestLocale(request);
+  const rankBy = params.get('rankBy') === 'value' ? 'value' : 'likelihood';
+  const matches = matchBenefits(parsed, benefits, { rankBy, asOf, locale });
+
+  // Answers depend on personal details; never cache them in shared caches
+  return json(200, {
+    catalogVersion: version,
+    asOf: asOf.toISOString().slice(0, 10),
+    resolved: lookupZipCode(parsed.zipCode).length > 0,
+    matches: groupBenefitsByCategory(matches),
+    plan: planApplications(matches),
+    actionPlan: buildActionPlan(matches, locale),
+  }, {
+    'Cache-Control': 'private, no-store',
+    'Content-Language': locale,
+  });
+}
+
+/**
+ * POST /api/compare with { profile, zips: [...] } as the JSON body.
+ * Matches the profile at each ZIP and returns them side by side.
+ */
+export async function handleCompare(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be JSON');
+  }
+
+  const parsed = compareRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const zipIssue = parsed.error.issues.find(issue => issue.path[0] === 'zips');
+    const details = parsed.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    return zipIssue
+      ? errorResponse(400, 'invalid_zip', 'zips must be 2-5 five-digit ZIP codes', details)
+      : errorResponse(400, 'invalid_profile', 'Profile is invalid', details);
+  }
+
+  const zips = [...new Set(parsed.data.zips.map(zip => normalizeZip(zip)!))];
+  if (zips.length < 2) {
+    return errorResponse(400, 'invalid_zip', 'zips must contain at least 2 different ZIP codes');
+  }
+
+  const locale = requestLocale(request);
+  const catalog = await getApiCatalog();
+  const comparison = compareLocations(parsed.data.profile, zips, [...catalog.benefits], { locale });
+
+  return json(200, { catalogVersion: catalog.version, ...comparison }, {
+    'Cache-Control': 'private, no-store',
+    'Content-Language': locale,
+  });
+}
+
+/**
+ * POST /api/export?format=pdf|ics with a VeteranProfile as the JSON body.
+ * `pdf` is a printable report of the matches, `ics` a calendar of
+ * reminders for recurring steps and deadlines.
+ */
+export async function handleExport(request: Request): Promise<Response> {
+  const format = new URL(request.url).searchParams.get('format') ?? 'pdf';
+  if (format !== 'pdf' && format !== 'ics') {
+    return errorResponse(400, 'invalid_query', 'format must be "pdf" or "ics"');
+  }
+
+  const profile = await readProfile(request);
+  if (profile instanceof Response) return profile;
+
+  const locale = requestLocale(request);
+  const catalog = await getApiCatalog();
+  const matches = matchBenefits(profile, [...catalog.benefits], { locale });
+  const headers = { 'Cache-Control': 'private, no-store', 'Content-Language': locale };
+
+  if (format === 'ics') {
+    return new Response(buildBenefitCalendar(matches, { locale }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="benefit-reminders.ics"',
+        ...headers,
+      },
+    });
+  }
+
+  const report = renderBenefitReportPdf(matches, {
+    zipCode: profile.zipCode,
+    locationResolved: lookupZipCode(profile.zipCode).length > 0,
+    locale,
+  });
+  return new Response(report, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': 'attachment; filename="benefit-report.pdf"',
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Consistent error body
+ */
+export function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: unknown
+): Response {
+  return json(status, { error: { code, message, ...(details ? { details } : {}) } }, {
+    'Cache-Control': 'no-store',
+  });
+}
+
+/**
+ * JSON response with an ETag for the catalog, ZIP data and locale, and
+ * Last-Modified taken from the newest source.lastVerified. Answers
+ * If-None-Match, or without it If-Modified-Since, with 304.
+ */
+function cachedJson(
+  request: Request,
+  catalog: BenefitCatalog,
+  locale: Locale,
+  benefits: Benefit[],
+  body: unknown
+): Response {
+  // Records that were never verified have no date, so Last-Modified alone
+  // would miss edits to them; the catalog version covers every record
+  const etag = `"${catalog.version}-${getZipDatasetVersion()}-${locale}"`;
+  const lastModified = latestVerified(benefits);
+  const headers: Record<string, string> = {
+    'Cache-Control': `public, max-age=${MAX_AGE_SECONDS}, stale-while-revalidate=${MAX_AGE_SECONDS}`,
+    'Content-Language': locale,
+    'ETag': etag,
+    'Vary': 'Accept-Language',
+  };
+  if (lastModified) headers['Last-Modified'] = lastModified.toUTCString();
+
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch !== null) {
+    return matchesEtag(ifNoneMatch, etag)
+      ? new Response(null, { status: 304, headers })
+      : json(200, body, headers);
+  }
+
+  const since = Date.parse(request.headers.get('If-Modified-Since') ?? '');
+  if (lastModified && !isNaN(since) && lastModified.getTime() <= since) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return json(200, body, headers);
+}
+
+/**
+ * Whether an If-None-Match header lists the ETag (weak comparison)
+ */
+function matchesEtag(header: string, etag: string): boolean {
+  return header.split(',').some(tag => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+}
+
+function latestVerified(benefits: Benefit[]): Date | null {
+  let latest: number | null = null;
+  for (const benefit of benefits) {
+    if (!benefit.source.lastVerified) continue;
+    const time = Date.parse(`${benefit.source.lastVerified}T00:00:00Z`);
+    if (!isNaN(time) && (latest === null || time > latest)) latest = time;
+  }
+  return latest === null ? null : new Date(latest);
+}
+
+/**
+ * VeteranProfile from a JSON request body, or the error response to send
+ */
+async function readProfile(request: Request): Promise<VeteranProfile | Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be JSON');
+  }
+
+  const parsed = veteranProfileSchema.safeParse(body);
+  if (!parsed.success) {
+    const zipIssue = parsed.error.issues.find(issue => issue.path[0] === 'zipCode');
+    const details = parsed.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    return zipIssue
+      ? errorResponse(400, 'invalid_zip', `zipCode ${zipIssue.message}`, details)
+      : errorResponse(400, 'invalid_profile', 'Profile is invalid', details);
+  }
+  return parsed.data;
+}
+
+/**
+ * `?locale=` wins over Accept-Language
+ */
+function requestLocale(request: Request): Locale {
+  return resolveLocale(
+    new URL(request.url).searchParams.get('locale') ?? request.headers.get('Accept-Language')
+  );
+}
+
+function parseIsoDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? date : null;
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+  });
+}
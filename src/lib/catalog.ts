@@ -0,0 +1,198 @@
+/**
+ * Benefit catalog
+ *
+ * Loads federal, state and data-file benefits once and indexes them so
+ * lookups don't scan every benefit. Location queries use the indexes to
+ * narrow down candidates, then apply the same coverage rules as
+ * resolveBenefitsForLocation.
+ */
+
+import type { Benefit, BenefitCategory, BenefitLevel, Locale } from '../data/schema';
+import { allBenefits } from '../data/benefits';
+import { loadAllBenefitSources, type DataFileError } from './data-loader';
+import { lookupZipCode } from './geography';
+import { resolveBenefitsForLocation, type LocationBenefits } from './lookup';
+import { catalogVersion } from './versioning';
+
+export interface BenefitCatalog {
+  readonly benefits: readonly Benefit[];
+  readonly version: string;      // See catalogVersion()
+  getById(id: string): Benefit | undefined;
+  getByCategory(category: BenefitCategory): Benefit[];
+  getByLevel(level: BenefitLevel): Benefit[];
+  getByTag(tag: string): Benefit[];
+  getByState(stateCode: string): Benefit[];
+  forLocation(zipCode: string, locale?: Locale): LocationBenefits;
+  getRelated(id: string, depth?: number): Benefit[];
+}
+
+interface CatalogIndexes {
+  byId: Map<string, Benefit>;
+  position: Map<Benefit, number>;
+  unrestricted: Benefit[];                  // No coverage limits (incl. federal)
+  byRadius: Benefit[];                      // Distance limits, checked per location
+  byState: Map<string, Benefit[]>;
+  byCounty: Map<string, Benefit[]>;
+  byCity: Map<string, Benefit[]>;
+  byZip: Map<string, Benefit[]>;
+  byCategory: Map<BenefitCategory, Benefit[]>;
+  byLevel: Map<BenefitLevel, Benefit[]>;
+  byTag: Map<string, Benefit[]>;
+}
+
+/**
+ * Build a catalog over a list of benefits. Ids must be unique.
+ */
+export function createBenefitCatalog(benefits: Benefit[]): BenefitCatalog {
+  const idx = buildIndexes(benefits);
+
+  return {
+    benefits,
+    version: catalogVersion(benefits),
+
+    getById: id => idx.byId.get(id),
+    getByCategory: category => idx.byCategory.get(category) ?? [],
+    getByLevel: level => idx.byLevel.get(level) ?? [],
+    getByTag: tag => idx.byTag.get(tag.toLowerCase()) ?? [],
+    getByState: stateCode => idx.byState.get(stateCode) ?? [],
+
+    forLocation(zipCode, locale) {
+      const candidates = new Set([...idx.unrestricted, ...idx.byRadius]);
+
+      for (const location of lookupZipCode(zipCode)) {
+        const cityKey = `${location.city}, ${location.stateCode}`;
+        for (const benefit of [
+          ...idx.byState.get(location.stateCode) ?? [],
+          ...idx.byCounty.get(location.countyFips) ?? [],
+          ...idx.byCity.get(cityKey) ?? [],
+          ...idx.byZip.get(location.zip) ?? [],
+        ]) {
+          candidates.add(benefit);
+        }
+      }
+
+      // Keep catalog order so results match a plain linear lookup
+      const ordered = [...candidates].sort(
+        (a, b) => idx.position.get(a)! - idx.position.get(b)!
+      );
+      return resolveBenefitsForLocation(zipCode, ordered, locale);
+    },
+
+    getRelated(id, depth = 1) {
+      const visited = new Set([id]);
+      const related: Benefit[] = [];
+      let frontier = [id];
+
+      for (let level = 0; level < depth && frontier.length; level++) {
+        const next: string[] = [];
+        for (const current of frontier) {
+          const from = idx.byId.get(current);
+          const relatedIds = [
+            ...from?.relatedBenefits ?? [],
+            ...from?.relationships?.map(rel => rel.benefitId) ?? [],
+          ];
+          for (const relatedId of relatedIds) {
+            const benefit = idx.byId.get(relatedId);
+            if (!benefit || visited.has(relatedId)) continue;
+            visited.add(relatedId);
+            related.push(benefit);
+            next.push(relatedId);
+          }
+        }
+        frontier = next;
+      }
+
+      return related;
+    },
+  };
+}
+
+let defaultCatalog: BenefitCatalog | null = null;
+
+/**
+ * Catalog of the benefits compiled into the app (federal + state modules).
+ * Built once on first use.
+ */
+export function getBenefitCatalog(): BenefitCatalog {
+  if (!defaultCatalog) defaultCatalog = createBenefitCatalog(allBenefits);
+  return defaultCatalog;
+}
+
+/**
+ * Catalog that also includes JSON/YAML data files. Records that failed
+ * the runtime schema or reuse an id that's already taken are left out
+ * and returned as errors.
+ */
+export async function loadBenefitCatalog(
+  dataDir: string
+): Promise<{ catalog: BenefitCatalog; errors: DataFileError[] }> {
+  const { sources, errors } = await loadAllBenefitSources(dataDir);
+  const seen = new Map<string, string>();   // id -> file it was first seen in
+  const benefits: Benefit[] = [];
+
+  for (const { file, benefits: records } of sources) {
+    for (const benefit of records) {
+      const previous = seen.get(benefit.id);
+      if (previous) {
+        errors.push({
+          file,
+          record: benefit.id,
+          path: 'id',
+          message: `duplicate id, already defined in ${previous}`,
+        });
+        continue;
+      }
+      seen.set(benefit.id, file);
+      benefits.push(benefit);
+    }
+  }
+
+  return { catalog: createBenefitCatalog(benefits), errors };
+}
+
+function buildIndexes(benefits: Benefit[]): CatalogIndexes {
+  const idx: CatalogIndexes = {
+    byId: new Map(),
+    position: new Map(),
+    unrestricted: [],
+    byRadius: [],
+    byState: new Map(),
+    byCounty: new Map(),
+    byCity: new Map(),
+    byZip: new Map(),
+    byCategory: new Map(),
+    byLevel: new Map(),
+    byTag: new Map(),
+  };
+
+  benefits.forEach((benefit, i) => {
+    if (idx.byId.has(benefit.id)) {
+      throw new Error(`Duplicate benefit id in catalog: ${benefit.id}`);
+    }
+    idx.byId.set(benefit.id, benefit);
+    idx.position.set(benefit, i);
+
+    const { states, counties, cities, zipCodes, radius } = benefit.coverage;
+    const restricted = benefit.level !== 'federal' &&
+      ([states, counties, cities, zipCodes].some(list => list?.length) || !!radius);
+
+    if (!restricted) idx.unrestricted.push(benefit);
+    if (restricted && radius) idx.byRadius.push(benefit);
+    states?.forEach(code => addTo(idx.byState, code, benefit));
+    counties?.forEach(fips => addTo(idx.byCounty, fips, benefit));
+    cities?.forEach(city => addTo(idx.byCity, city, benefit));
+    zipCodes?.forEach(zip => addTo(idx.byZip, zip, benefit));
+
+    addTo(idx.byCategory, benefit.category, benefit);
+    addTo(idx.byLevel, benefit.level, benefit);
+    benefit.tags.forEach(tag => addTo(idx.byTag, tag.toLowerCase(), benefit));
+  });
+
+  return idx;
+}
+
+function addTo<K>(index: Map<K, Benefit[]>, key: K, benefit: Benefit): void {
+  const list = index.get(key);
+  if (list) list.push(benefit);
+  else index.set(key, [benefit]);
+}
@@ -0,0 +1,125 @@
+/**
+ * Relocation comparison
+ *
+ * "Should I settle in Austin or San Antonio?" Matches one profile as if
+ * the veteran lived at each candidate ZIP and lines the results up:
+ * benefits only available at one place, benefits available everywhere,
+ * and per-category totals.
+ */
+
+import type { Benefit, BenefitCategory, BenefitMatch, VeteranProfile } from '../data/schema';
+import { lookupZipCode, zipStateAndCounty, type ZipLocation } from './geography';
+import { matchBenefits, resolveBenefitsForLocation, type MatchOptions } from './lookup';
+import { expectedValue } from './scoring';
+
+export interface CategoryTotals {
+  likely: number;                // Matches with status 'likely'
+  possible: number;
+  estimatedAnnualValue: number;  // Sum of expected yearly value (see expectedValue), USD;
+                                 // of two benefits that exclude each other, only the larger
+}
+
+export interface LocationComparison {
+  zip: string;
+  resolved: boolean;             // False if the ZIP isn't in our data (federal benefits only)
+  locations: ZipLocation[];
+  ambiguousBenefitIds: string[]; // Depend on which side of a county line
+  matches: BenefitMatch[];
+  uniqueBenefitIds: string[];    // Matched here and at no other ZIP
+  totals: Partial<Record<BenefitCategory, CategoryTotals>>;
+  estimatedAnnualValue: number;  // All categories
+}
+
+export interface RelocationComparison {
+  locations: LocationComparison[];
+  sharedBenefitIds: string[];    // Matched at every ZIP
+}
+
+/**
+ * Compare benefits for one profile across candidate ZIPs. The profile's
+ * own state and county are replaced with each ZIP's (when the ZIP is in
+ * a single state or county), since that's where they'd be living.
+ */
+export function compareLocations(
+  profile: VeteranProfile,
+  zips: string[],
+  benefits: Benefit[],
+  options: MatchOptions = {}
+): RelocationComparison {
+  const perZip = zips.map(zip => {
+    const locations = lookupZipCode(zip);
+    const matches = matchBenefits(relocate(profile, zip), benefits, options);
+    const { ambiguousBenefitIds } = resolveBenefitsForLocation(zip, benefits);
+    return { zip, locations, matches, ambiguousBenefitIds };
+  });
+
+  const idSets = perZip.map(entry => new Set(entry.matches.map(m => m.benefit.id)));
+  const sharedBenefitIds = perZip.length
+    ? [...idSets[0]].filter(id => idSets.every(ids => ids.has(id)))
+    : [];
+
+  return {
+    sharedBenefitIds,
+    locations: perZip.map(({ zip, locations, matches, ambiguousBenefitIds }, i) => {
+      const totals = categoryTotals(matches);
+      return {
+        zip,
+        resolved: locations.length > 0,
+        locations,
+        ambiguousBenefitIds: ambiguousBenefitIds.filter(id => matches.some(m => m.benefit.id === id)),
+        matches,
+        uniqueBenefitIds: matches
+          .map(m => m.benefit.id)
+          .filter(id => idSets.every((ids, j) => j === i || !ids.has(id))),
+        totals,
+        estimatedAnnualValue: Object.values(totals).reduce((sum, t) => sum + t.estimatedAnnualValue, 0),
+      };
+    }),
+  };
+}
+
+function relocate(profile: VeteranProfile, zip: string): VeteranProfile {
+  const { state, county } = zipStateAndCounty(zip);
+  return { ...profile, zipCode: zip, state, county };
+}
+
+function categoryTotals(matches: BenefitMatch[]): Partial<Record<BenefitCategory, CategoryTotals>> {
+  const totals: Partial<Record<BenefitCategory, CategoryTotals>> = {};
+  const notPaid = excludedValues(matches);
+
+  for (const match of matches) {
+    const entry = totals[match.benefit.category] ??= { likely: 0, possible: 0, estimatedAnnualValue: 0 };
+    if (!notPaid.has(match.benefit.id)) {
+      entry.estimatedAnnualValue += Math.round(expectedValue(match));
+    }
+    if (match.eligibilityStatus === 'likely') {
+      entry.likely++;
+    } else if (match.eligibilityStatus === 'possible') {
+      entry.possible++;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Benefits whose value can't be added to the rest: when two matches
+ * exclude each other (e.g. pension and disability compensation), the
+ * veteran gets the larger one, so the smaller is left out.
+ */
+function excludedValues(matches: BenefitMatch[]): Set<string> {
+  const position = new Map(matches.map((match, i) => [match.benefit.id, i]));
+  const excluded = new Set<string>();
+
+  matches.forEach((match, i) => {
+    for (const rel of match.benefit.relationships ?? []) {
+      const j = position.get(rel.benefitId);
+      if (rel.type !== 'excludes' || j === undefined) continue;
+      // Ties keep the better-ranked match, whichever side declared it
+      const [mine, theirs] = [expectedValue(match), expectedValue(matches[j])];
+      excluded.add(mine > theirs || (mine === theirs && i < j) ? rel.benefitId : match.benefit.id);
+    }
+  });
+
+  return excluded;
+}
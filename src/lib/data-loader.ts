@@ -0,0 +1,150 @@
+/**
+ * Benefit data file loader
+ *
+ * Reads benefit records from JSON and YAML files so programs can be
+ * added without a code change. A file holds either a list of benefits
+ * or an object with a `benefits` list. Records that don't match the
+ * runtime schema are skipped and reported with the exact field path.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { extname, join, relative } from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { Benefit } from '../data/schema';
+import type { BenefitSource } from '../data/benefits';
+import { benefitSources } from '../data/benefits';
+import { benefitSchema } from '../data/runtime-schema';
+
+const DATA_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+export interface DataFileError {
+  file: string;
+  record?: string;           // "[2]" or "[2] travis-county-vso"
+  path: string;              // Field path inside the record
+  message: string;
+}
+
+export interface LoadedBenefits {
+  sources: BenefitSource[];
+  errors: DataFileError[];
+}
+
+/**
+ * Load every JSON/YAML benefit file under a directory (recursively).
+ * `root` is used to make file paths in errors relative.
+ */
+export async function loadBenefitDataDir(
+  dir: string,
+  root: string = process.cwd()
+): Promise<LoadedBenefits> {
+  const sources: BenefitSource[] = [];
+  const errors: DataFileError[] = [];
+
+  for (const path of await listDataFiles(dir)) {
+    const file = relative(root, path).split('\\').join('/');
+    const result = parseBenefitFile(file, await readFile(path, 'utf8'));
+    sources.push(result.source);
+    errors.push(...result.errors);
+  }
+
+  return { sources, errors };
+}
+
+/**
+ * Parse one data file's contents. The extension of `file` picks the format.
+ */
+export function parseBenefitFile(
+  file: string,
+  contents: string
+): { source: BenefitSource; errors: DataFileError[] } {
+  const benefits: Benefit[] = [];
+  const errors: DataFileError[] = [];
+
+  let data: unknown;
+  try {
+    data = extname(file) === '.json' ? JSON.parse(contents) : parseYaml(contents);
+  } catch (e: any) {
+    errors.push({ file, path: '', message: `can't parse file: ${e.message}` });
+    return { source: { file, benefits }, errors };
+  }
+
+  const records = Array.isArray(data)
+    ? data
+    : (data as { benefits?: unknown })?.benefits;
+
+  if (!Array.isArray(records)) {
+    errors.push({ file, path: '', message: 'expected a list of benefits or a `benefits:` list' });
+    return { source: { file, benefits }, errors };
+  }
+
+  records.forEach((record, i) => {
+    const result = benefitSchema.safeParse(record);
+    if (result.success) {
+      benefits.push(result.data);
+      return;
+    }
+
+    const id = typeof record?.id === 'string' ? ` ${record.id}` : '';
+    for (const issue of result.error.issues) {
+      errors.push({
+        file,
+        record: `[${i}]${id}`,
+        path: formatPath(issue.path),
+        message: issue.message,
+      });
+    }
+  });
+
+  return { source: { file, benefits }, errors };
+}
+
+/**
+ * Merge the TypeScript benefit modules with data files into one list of
+ * sources, ready for validation and the catalog
+ */
+export async function loadAllBenefitSources(
+  dataDir: string,
+  root: string = process.cwd()
+): Promise<LoadedBenefits> {
+  const loaded = await loadBenefitDataDir(dataDir, root);
+  return {
+    sources: [...benefitSources, ...loaded.sources],
+    errors: loaded.errors,
+  };
+}
+
+/**
+ * Format a data file error as "file: [i] id: path: message"
+ */
+export function formatDataFileError(error: DataFileError): string {
+  return [error.file, error.record, error.path, error.message]
+    .filter(Boolean)
+    .join(': ');
+}
+
+async function listDataFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return [];
+    throw e;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listDataFiles(path));
+    } else if (DATA_EXTENSIONS.includes(extname(entry.name))) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path
+    .map((part, i) => typeof part === 'number' ? `[${part}]` : (i ? `.${part}` : part))
+    .join('');
+}
@@ -0,0 +1,237 @@
+/**
+ * Plain-language explanations of eligibility traces
+ *
+ * Turns RuleChecks into sentences a caseworker can read to a veteran,
+ * e.g. "You have 120 days of service; Hazlewood Act Education Benefits
+ * needs at least 181." Sentences come from a per-locale message table;
+ * amounts and lists are formatted for the same locale.
+ */
+
+import type {
+  BenefitMatch,
+  IncomeLimit,
+  Locale,
+  RequirementTrace,
+  RuleCheck,
+  RuleField,
+  RuleValue,
+} from '../data/schema';
+import { getIncomeThresholdTable } from '../data/income-thresholds';
+import { getServiceEra } from '../data/service-eras';
+import { DEFAULT_LOCALE, formatCurrency, formatList } from './i18n';
+
+interface ExplainMessages {
+  fields: Partial<Record<RuleField, string>>;
+  eras: Partial<Record<string, string>>;   // By era id; defaults to the name in service-eras.ts
+  ops: Record<RuleCheck['op'], string>;
+  eraDays: (era: string) => string;
+  haveField: (label: string) => string;
+  needsField: (benefit: string, label: string) => string;
+  unknown: (labels: string, benefit: string, needs: string) => string;
+  haveCount: (count: string, label: string) => string;
+  fieldIs: (label: string, value: string) => string;
+  meets: (have: string, benefit: string, needs: string) => string;
+  fails: (have: string, benefit: string, needs: string) => string;
+  manual: (description: string) => string;
+  limit: (name: string, percent?: number) => string;
+  yes: string;
+  no: string;
+}
+
+const MESSAGES: Record<Locale, ExplainMessages> = {
+  en: {
+    fields: {
+      serviceDays: 'days of service',
+      yearsOfService: 'years of service',
+      dischargeStatus: 'discharge status',
+      disabilityRating: 'VA disability rating',
+      householdIncome: 'household income',
+      householdSize: 'household size',
+      county: 'county',
+      applicantRelationship: 'relationship to the veteran',
+      applicantAge: 'age',
+      hasRemarried: 'remarriage status',
+      qualifyingChildren: 'dependent children',
+      isSurvivor: 'survivor status',
+      age: 'age',
+      state: 'state of residence',
+      stateResidencyMonths: 'months living in your state',
+      entryState: 'state of residence when you entered service',
+      serviceEras: 'service eras',
+      branchOfService: 'branch of service',
+    },
+    eras: {},
+    ops: {
+      eq: '',
+      neq: 'anything but',
+      gt: 'more than',
+      gte: 'at least',
+      lt: 'less than',
+      lte: 'at most',
+      in: 'one of',
+      notIn: 'none of',
+      contains: 'to include',
+      exists: '',
+    },
+    eraDays: era => `days of ${era} service`,
+    haveField: label => `We have your ${label}.`,
+    needsField: (benefit, label) => `${benefit} needs your ${label}.`,
+    unknown: (labels, benefit, needs) => `We don't know your ${labels}; ${benefit} needs ${needs}.`,
+    haveCount: (count, label) => `You have ${count} ${label}`,
+    fieldIs: (label, value) => `Your ${label} is ${value}`,
+    meets: (have, benefit, needs) => `${have}, which meets ${benefit}'s requirement of ${needs}.`,
+    fails: (have, benefit, needs) => `${have}; ${benefit} needs ${needs}.`,
+    manual: description => `Can't be checked automatically: ${description}`,
+    limit: (name, percent) => percent ? `${percent}% of the ${name}` : `the ${name}`,
+    yes: 'yes',
+    no: 'no',
+  },
+  es: {
+    fields: {
+      serviceDays: 'días de servicio',
+      yearsOfService: 'años de servicio',
+      dischargeStatus: 'tipo de baja',
+      disabilityRating: 'calificación de discapacidad de la VA',
+      householdIncome: 'ingreso familiar',
+      householdSize: 'número de personas en el hogar',
+      county: 'condado',
+      applicantRelationship: 'relación con el veterano',
+      applicantAge: 'edad',
+      hasRemarried: 'estado de nuevo matrimonio',
+      qualifyingChildren: 'hijos dependientes',
+      isSurvivor: 'condición de sobreviviente',
+      age: 'edad',
+      state: 'estado de residencia',
+      stateResidencyMonths: 'meses viviendo en su estado',
+      entryState: 'estado de residencia al ingresar al servicio',
+      serviceEras: 'períodos de servicio',
+      branchOfService: 'rama de servicio',
+    },
+    eras: {
+      wwii: 'la Segunda Guerra Mundial',
+      korea: 'el conflicto de Corea',
+      vietnam: 'la era de Vietnam',
+      gulf: 'la Guerra del Golfo',
+      'post-911': 'el período posterior al 11 de septiembre',
+    },
+    ops: {
+      eq: '',
+      neq: 'cualquier valor menos',
+      gt: 'más de',
+      gte: 'al menos',
+      lt: 'menos de',
+      lte: 'como máximo',
+      in: 'uno de',
+      notIn: 'ninguno de',
+      contains: 'que incluya',
+      exists: '',
+    },
+    eraDays: era => `días de servicio en ${era}`,
+    // Labels vary in gender and number, so no "su"/"sus" before them
+    haveField: label => `Ya tenemos: ${label}.`,
+    needsField: (benefit, label) => `${benefit} necesita saber: ${label}.`,
+    unknown: (labels, benefit, needs) => `Falta saber: ${labels}; ${benefit} requiere ${needs}.`,
+    haveCount: (count, label) => `Usted tiene ${count} ${label}`,
+    fieldIs: (label, value) => `${label[0].toUpperCase()}${label.slice(1)}: ${value}`,
+    meets: (have, benefit, needs) => `${have}, lo que cumple el requisito de ${benefit}: ${needs}.`,
+    fails: (have, benefit, needs) => `${have}; ${benefit} requiere ${needs}.`,
+    manual: description => `No se puede verificar automáticamente: ${description}`,
+    limit: (name, percent) => percent ? `el ${percent}% del límite "${name}"` : `el límite "${name}"`,
+    yes: 'sí',
+    no: 'no',
+  },
+};
+
+const CURRENCY_FIELDS = new Set<RuleField>(['householdIncome']);
+
+// Fields read as a count ("You have 120 days of service")
+const COUNT_FIELDS = new Set<RuleField>(['serviceDays', 'yearsOfService', 'stateResidencyMonths']);
+
+/**
+ * Explain a single comparison
+ */
+export function explainCheck(
+  check: RuleCheck,
+  benefitName: string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const m = MESSAGES[locale];
+  const era = check.era ? getServiceEra(check.era) : undefined;
+  const label = era && check.field === 'serviceDays'
+    ? m.eraDays(m.eras[era.id] ?? era.name)
+    : m.fields[check.field] ?? check.field;
+
+  if (check.op === 'exists') {
+    return check.outcome === 'met'
+      ? m.haveField(label)
+      : m.needsField(benefitName, label);
+  }
+
+  const format = (value: unknown) => formatValue(value, locale, check.field);
+  const limit = check.threshold ? describeLimit(check.threshold, locale) : '';
+  const needs = check.expected === undefined
+    ? `${label} ${m.ops[check.op]} ${limit}`
+    : [m.ops[check.op], format(check.expected), limit && `(${limit})`]
+        .filter(Boolean)
+        .join(' ');
+
+  if (check.outcome === 'unknown') {
+    const unknown = check.missing?.length
+      ? formatList(check.missing.map(f => f === check.field ? label : m.fields[f] ?? f), locale)
+      : label;
+    return m.unknown(unknown, benefitName, needs);
+  }
+
+  const have = COUNT_FIELDS.has(check.field)
+    ? m.haveCount(format(check.actual), label)
+    : m.fieldIs(label, format(check.actual));
+  return check.outcome === 'met'
+    ? m.meets(have, benefitName, needs)
+    : m.fails(have, benefitName, needs);
+}
+
+/**
+ * Explain every check behind one requirement
+ */
+export function explainTrace(
+  trace: RequirementTrace,
+  benefitName: string,
+  locale: Locale = DEFAULT_LOCALE
+): string[] {
+  if (trace.checks.length === 0) {
+    return [MESSAGES[locale].manual(trace.requirement.description)];
+  }
+  return trace.checks.map(check => explainCheck(check, benefitName, locale));
+}
+
+/**
+ * Explain why a match isn't likely: the failed checks first, then the unknowns
+ */
+export function explainMatch(match: BenefitMatch, locale: Locale = DEFAULT_LOCALE): string[] {
+  const name = match.benefit.name;
+  const failed = match.trace.filter(t => t.outcome === 'not-met');
+  const unknown = match.trace.filter(t => t.outcome === 'unknown');
+
+  return [...failed, ...unknown].flatMap(trace =>
+    trace.checks.length === 0
+      ? explainTrace(trace, name, locale)
+      : trace.checks
+          .filter(check => check.outcome !== 'met')
+          .map(check => explainCheck(check, name, locale))
+  );
+}
+
+function describeLimit(limit: IncomeLimit, locale: Locale): string {
+  const table = getIncomeThresholdTable(limit.table);
+  const name = table?.name ?? limit.table;
+  return MESSAGES[locale].limit(name, limit.percent && limit.percent !== 100 ? limit.percent : undefined);
+}
+
+function formatValue(value: unknown, locale: Locale, field?: RuleField): string {
+  if (typeof value === 'number' && field && CURRENCY_FIELDS.has(field)) {
+    return formatCurrency(value, locale);
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? MESSAGES[locale].yes : MESSAGES[locale].no;
+  return String(value as RuleValue);
+}
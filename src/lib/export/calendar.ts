@@ -0,0 +1,195 @@
+/**
+ * iCalendar export
+ *
+ * Reminders for the steps a veteran has to repeat or finish by a date,
+ * like Hazlewood's "apply separately for each semester" or the April 30
+ * property tax exemption deadline, as an .ics file any calendar app can
+ * import. Events recur yearly so one import covers every year.
+ */
+
+import type { ActionStep, BenefitMatch, Locale } from '../../data/schema';
+import { actionSteps } from '../action-plan';
+import { DEFAULT_LOCALE } from '../i18n';
+
+export interface CalendarOptions {
+  now?: Date;                    // Events start from the next date after this
+  semesterDates?: string[];      // MM-DD to be reminded before each term; default fall and spring
+  yearlyDate?: string;           // MM-DD for yearly steps without a deadline
+  alarmDaysBefore?: number;      // Default 7; 0 for no alarm
+  locale?: Locale;               // Event wording; match in the same locale for step text
+}
+
+interface CalendarMessages {
+  calendarName: string;
+  semester: string;
+  yearly: string;
+  deadline: string;
+  formDue: (form: string) => string;
+  form: string;
+  phone: string;
+  address: string;
+  moreInfo: string;
+}
+
+const MESSAGES: Record<Locale, CalendarMessages> = {
+  en: {
+    calendarName: 'Veteran benefit reminders',
+    semester: 'apply for the coming semester',
+    yearly: 'yearly renewal',
+    deadline: 'deadline',
+    formDue: form => `${form} due`,
+    form: 'Form',
+    phone: 'Phone',
+    address: 'Address',
+    moreInfo: 'More information',
+  },
+  es: {
+    calendarName: 'Recordatorios de beneficios para veteranos',
+    semester: 'solicitar para el próximo semestre',
+    yearly: 'renovación anual',
+    deadline: 'fecha límite',
+    formDue: form => `fecha límite del ${form}`,
+    form: 'Formulario',
+    phone: 'Teléfono',
+    address: 'Dirección',
+    moreInfo: 'Más información',
+  },
+};
+
+const DEFAULT_SEMESTER_DATES = ['07-01', '11-15'];
+const DEFAULT_YEARLY_DATE = '01-15';
+
+/**
+ * Calendar with a yearly event for each recurring or dated step of the
+ * likely and possible matches
+ */
+export function buildBenefitCalendar(matches: BenefitMatch[], options: CalendarOptions = {}): string {
+  const now = options.now ?? new Date();
+  const alarmDays = options.alarmDaysBefore ?? 7;
+  const m = MESSAGES[options.locale ?? DEFAULT_LOCALE];
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//unlock.vet//Benefit reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(m.calendarName)}`,
+  ];
+
+  const worthPursuing = matches.filter(match =>
+    match.eligibilityStatus === 'likely' || match.eligibilityStatus === 'possible'
+  );
+
+  for (const { benefit } of worthPursuing) {
+    actionSteps(benefit.action).forEach((step, i) => {
+      reminderDates(step, options).forEach((monthDay, j) => {
+        const start = nextOccurrence(monthDay, now);
+        const description = [
+          step.text,
+          step.form ? `${m.form}: ${step.form}` : '',
+          step.phone ? `${m.phone}: ${step.phone}` : '',
+          step.address ? `${m.address}: ${step.address}` : '',
+          `${m.moreInfo}: ${step.url ?? benefit.action.url ?? benefit.source.url}`,
+        ].filter(Boolean).join('\n');
+
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${benefit.id}-${i}-${j}@unlock.vet`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART;VALUE=DATE:${icsDate(start)}`,
+          `DTEND;VALUE=DATE:${icsDate(addDays(start, 1))}`,
+          'RRULE:FREQ=YEARLY',
+          `SUMMARY:${escapeText(`${benefit.name}: ${summaryFor(step, m)}`)}`,
+          `DESCRIPTION:${escapeText(description)}`,
+          `URL:${step.url ?? benefit.action.url ?? benefit.source.url}`,
+          'TRANSP:TRANSPARENT',
+        );
+        if (alarmDays > 0) {
+          lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeText(benefit.name)}`,
+            `TRIGGER:-P${alarmDays}D`,
+            'END:VALARM',
+          );
+        }
+        lines.push('END:VEVENT');
+      });
+    });
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * MM-DD dates a step needs a reminder on each year
+ */
+function reminderDates(step: ActionStep, options: CalendarOptions): string[] {
+  if (step.deadline) return [step.deadline];
+  if (step.repeats === 'semester') return options.semesterDates ?? DEFAULT_SEMESTER_DATES;
+  if (step.repeats === 'year') return [options.yearlyDate ?? DEFAULT_YEARLY_DATE];
+  return [];
+}
+
+function summaryFor(step: ActionStep, m: CalendarMessages): string {
+  if (step.deadline) return step.form ? m.formDue(step.form) : m.deadline;
+  return step.repeats === 'semester' ? m.semester : m.yearly;
+}
+
+/**
+ * First date on or after `now` falling on MM-DD (UTC)
+ */
+function nextOccurrence(monthDay: string, now: Date): Date {
+  const [month, day] = monthDay.split('-').map(Number);
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  let year = now.getUTCFullYear();
+  if (Date.UTC(year, month - 1, day) < today) year++;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function icsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * TEXT value escaping (RFC 5545 3.3.11)
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 3.1), without splitting
+ * a UTF-8 character
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;  // Continuations start with a space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
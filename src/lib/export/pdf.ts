@@ -0,0 +1,259 @@
+/**
+ * Minimal PDF writer
+ *
+ * Just enough PDF for a text report: flowing, wrapped text in the
+ * built-in Helvetica fonts, page breaks, horizontal rules and clickable
+ * links. No fonts are embedded and nothing is fetched, so output is
+ * small and generated entirely in-process.
+ *
+ * Text is encoded as WinAnsi; characters outside it print as "?".
+ */
+
+import { deflateSync } from 'zlib';
+
+export type Rgb = [number, number, number];
+
+export interface TextStyle {
+  bold?: boolean;
+  size?: number;                 // Points, default 10
+  color?: Rgb;                   // 0-1 each, default black
+  indent?: number;               // Points from the left margin
+  spaceAfter?: number;           // Points, default a third of the line height
+}
+
+interface Page {
+  content: string[];
+  links: { rect: [number, number, number, number]; url: string }[];
+}
+
+const PAGE_WIDTH = 612;          // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const LINE_HEIGHT = 1.3;
+
+// Glyph widths (1/1000 em) for ASCII 32-126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Non-ASCII characters WinAnsi has, with their codes
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, '‰': 0x89,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '™': 0x99,
+};
+
+export class PdfDocument {
+  private readonly pages: Page[] = [];
+  private y = 0;
+
+  constructor(private readonly title: string = 'Report') {
+    this.addPage();
+  }
+
+  /**
+   * Wrapped text starting on a new line
+   */
+  write(text: string, style: TextStyle = {}): void {
+    const size = style.size ?? 10;
+    const width = PAGE_WIDTH - 2 * MARGIN - (style.indent ?? 0);
+    for (const line of wrap(text, size, !!style.bold, width)) {
+      this.line(line, style);
+    }
+    this.y -= style.spaceAfter ?? (size * LINE_HEIGHT) / 3;
+  }
+
+  /**
+   * Text that opens `url` when clicked
+   */
+  link(text: string, url: string, style: TextStyle = {}): void {
+    const size = style.size ?? 10;
+    const x = MARGIN + (style.indent ?? 0);
+    const width = PAGE_WIDTH - 2 * MARGIN - (style.indent ?? 0);
+
+    for (const line of wrap(text, size, !!style.bold, width)) {
+      this.line(line, { color: [0, 0.2, 0.6], ...style });
+      const baseline = this.y + size * (LINE_HEIGHT - 1);
+      this.current.links.push({
+        rect: [x, baseline - size * 0.25, x + textWidth(line, size, !!style.bold), baseline + size * 0.8],
+        url,
+      });
+    }
+    this.y -= style.spaceAfter ?? (size * LINE_HEIGHT) / 3;
+  }
+
+  space(points: number): void {
+    this.y -= points;
+  }
+
+  /**
+   * Thin horizontal line across the text area
+   */
+  rule(): void {
+    this.ensureRoom(12);
+    this.y -= 6;
+    this.current.content.push(
+      `0.75 G 0.5 w ${MARGIN} ${fmt(this.y)} m ${PAGE_WIDTH - MARGIN} ${fmt(this.y)} l S`
+    );
+    this.y -= 6;
+  }
+
+  /**
+   * Start the next block on a new page unless `points` still fit
+   */
+  keepTogether(points: number): void {
+    this.ensureRoom(points);
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);  // Object numbers start at 1
+
+    const catalogId = add('');
+    const pagesId = add('');
+    const fontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const infoId = add(`<< /Title ${pdfString(this.title)} /Producer (unlock.vet) >>`);
+
+    const pageIds: number[] = [];
+    this.pages.forEach((page, i) => {
+      const footer = `BT /F1 8 Tf 0.4 g ${MARGIN} 30 Td ${pdfString(`${this.title} - page ${i + 1} of ${this.pages.length}`)} Tj ET`;
+      const stream = deflateSync(Buffer.from([...page.content, footer].join('\n'), 'latin1'));
+      const contentId = add(
+        `<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n${stream.toString('latin1')}\nendstream`
+      );
+      const annots = page.links.map(link => add(
+        `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(fmt).join(' ')}] /Border [0 0 0] ` +
+        `/A << /S /URI /URI ${pdfString(link.url)} >> >>`
+      ));
+      pageIds.push(add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldId} 0 R >> >> ` +
+        `/Contents ${contentId} 0 R` +
+        (annots.length ? ` /Annots [${annots.map(id => `${id} 0 R`).join(' ')}]` : '') +
+        ' >>'
+      ));
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] =
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n`;
+    out += `startxref\n${xref}\n%%EOF\n`;
+
+    return new Uint8Array(Buffer.from(out, 'latin1'));
+  }
+
+  private get current(): Page {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private addPage(): void {
+    this.pages.push({ content: [], links: [] });
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureRoom(points: number): void {
+    if (this.y - points < MARGIN) this.addPage();
+  }
+
+  private line(text: string, style: TextStyle): void {
+    const size = style.size ?? 10;
+    this.ensureRoom(size * LINE_HEIGHT);
+    this.y -= size;
+
+    const [r, g, b] = style.color ?? [0, 0, 0];
+    const x = MARGIN + (style.indent ?? 0);
+    this.current.content.push(
+      `BT /${style.bold ? 'F2' : 'F1'} ${size} Tf ${fmt(r)} ${fmt(g)} ${fmt(b)} rg ` +
+      `${fmt(x)} ${fmt(this.y)} Td ${pdfString(text)} Tj ET`
+    );
+    this.y -= size * (LINE_HEIGHT - 1);
+  }
+}
+
+/**
+ * Width of text in points
+ */
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Split text into lines that fit `width`, keeping explicit line breaks.
+ * Words longer than a line (long URLs) are broken mid-word.
+ */
+function wrap(text: string, size: number, bold: boolean, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+
+      current = word;
+      while (textWidth(current, size, bold) > width) {
+        let cut = current.length - 1;
+        while (cut > 1 && textWidth(current.slice(0, cut), size, bold) > width) cut--;
+        lines.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * PDF literal string in WinAnsi, with ( ) \ escaped
+ */
+function pdfString(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = WIN_ANSI[char] ?? (code < 256 && code >= 32 ? code : 63);
+    const c = String.fromCharCode(byte);
+    out += c === '(' || c === ')' || c === '\\' ? `\\${c}` : c;
+  }
+  return `(${out})`;
+}
+
+function fmt(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
@@ -0,0 +1,234 @@
+/**
+ * Printable benefit report
+ *
+ * A PDF a veteran or VSO representative can bring to an appointment:
+ * matches grouped by category, each with its eligibility status, what
+ * we still need to know, who to contact and where the information came
+ * from.
+ */
+
+import type { BenefitCategory, BenefitMatch, EligibilityStatus, Locale } from '../../data/schema';
+import { explainMatch } from '../explain';
+import { DEFAULT_LOCALE, formatCurrency, formatNumber } from '../i18n';
+import { groupBenefitsByCategory } from '../lookup';
+import { PdfDocument, type Rgb } from './pdf';
+
+export interface ReportOptions {
+  title?: string;
+  generatedAt?: Date;
+  zipCode?: string;              // Shown in the header
+  locationResolved?: boolean;    // False to note that local benefits weren't checked; default true
+  includeUnlikely?: boolean;     // Default false
+  locale?: Locale;               // Labels and formatting; match in the same locale for benefit text
+}
+
+interface ReportMessages {
+  title: string;
+  generated: (date: string) => string;
+  zip: (zip: string) => string;
+  benefitCount: (count: number) => string;
+  disclaimer: string;
+  noMatches: string;
+  unresolved: (zip: string) => string;
+  categories: Record<BenefitCategory, string>;
+  status: Record<EligibilityStatus, string>;
+  score: (score: string, percentChecked: string) => string;
+  value: (amount: string) => string;
+  toConfirm: string;
+  openQuestions: string;
+  howToApply: string;
+  form: string;
+  phone: string;
+  address: string;
+  source: (name: string, date: string | null) => string;
+  stale: string;
+  unverified: string;
+}
+
+const MESSAGES: Record<Locale, ReportMessages> = {
+  en: {
+    title: 'Veteran Benefits Report',
+    generated: date => `Generated ${date}`,
+    zip: zip => `ZIP ${zip}`,
+    benefitCount: count => `${count} benefit${count === 1 ? '' : 's'}`,
+    disclaimer: 'Eligibility shown here is an estimate from the answers given. ' +
+      'Only the agency running each program can make a decision.',
+    noMatches: 'No matching benefits were found for these answers.',
+    unresolved: zip => `We don't have local data for ${zip} yet, so only federal benefits are listed. ` +
+      'State and local programs may also be available; check with a county veterans service officer.',
+    categories: {
+      healthcare: 'Healthcare',
+      disability: 'Disability',
+      education: 'Education',
+      housing: 'Housing',
+      employment: 'Employment',
+      financial: 'Financial',
+      burial: 'Burial',
+      family: 'Family',
+    },
+    status: {
+      likely: 'Likely eligible',
+      possible: 'Possibly eligible',
+      unlikely: 'Unlikely to qualify',
+      unknown: 'Not enough information yet',
+    },
+    score: (score, percent) => `score ${score}, ${percent}% of requirements checked`,
+    value: amount => `Estimated value: about ${amount} a year`,
+    toConfirm: 'To confirm:',
+    openQuestions: 'Open questions:',
+    howToApply: 'How to apply:',
+    form: 'Form',
+    phone: 'Phone',
+    address: 'Address',
+    source: (name, date) => date ? `Source: ${name}, verified ${date}` : `Source: ${name}, not yet verified`,
+    stale: 'This information is overdue for re-verification; check the source before relying on it.',
+    unverified: "We haven't checked this information against the source yet; confirm it there before relying on it.",
+  },
+  es: {
+    title: 'Informe de beneficios para veteranos',
+    generated: date => `Generado el ${date}`,
+    zip: zip => `Código postal ${zip}`,
+    benefitCount: count => `${count} beneficio${count === 1 ? '' : 's'}`,
+    disclaimer: 'La elegibilidad que se muestra es un cálculo aproximado a partir de las respuestas dadas. ' +
+      'Solo la agencia a cargo de cada programa puede tomar una decisión.',
+    noMatches: 'No se encontraron beneficios para estas respuestas.',
+    unresolved: zip => `Todavía no tenemos datos locales para ${zip}, así que solo se muestran beneficios federales. ` +
+      'También puede haber programas estatales y locales; consulte con un oficial de servicios para veteranos del condado.',
+    categories: {
+      healthcare: 'Atención médica',
+      disability: 'Discapacidad',
+      education: 'Educación',
+      housing: 'Vivienda',
+      employment: 'Empleo',
+      financial: 'Finanzas',
+      burial: 'Entierro',
+      family: 'Familia',
+    },
+    status: {
+      likely: 'Probablemente elegible',
+      possible: 'Posiblemente elegible',
+      unlikely: 'Es poco probable que califique',
+      unknown: 'Todavía falta información',
+    },
+    score: (score, percent) => `puntuación ${score}, ${percent}% de los requisitos verificados`,
+    value: amount => `Valor estimado: unos ${amount} al año`,
+    toConfirm: 'Por confirmar:',
+    openQuestions: 'Preguntas pendientes:',
+    howToApply: 'Cómo solicitarlo:',
+    form: 'Formulario',
+    phone: 'Teléfono',
+    address: 'Dirección',
+    source: (name, date) => date ? `Fuente: ${name}, verificada el ${date}` : `Fuente: ${name}, todavía sin verificar`,
+    stale: 'Esta información debe volver a verificarse; consulte la fuente antes de usarla.',
+    unverified: 'Todavía no hemos comparado esta información con la fuente; confírmela allí antes de usarla.',
+  },
+};
+
+const STATUS_COLORS: Record<EligibilityStatus, Rgb> = {
+  likely: [0.1, 0.45, 0.2],
+  possible: [0.65, 0.45, 0],
+  unlikely: [0.6, 0.15, 0.15],
+  unknown: [0.4, 0.4, 0.4],
+};
+
+const GRAY: Rgb = [0.4, 0.4, 0.4];
+
+/**
+ * Render matches (as returned by matchBenefits) as a PDF
+ */
+export function renderBenefitReportPdf(
+  matches: BenefitMatch[],
+  options: ReportOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const m = MESSAGES[locale];
+  const title = options.title ?? m.title;
+  const generatedAt = options.generatedAt ?? new Date();
+  const included = options.includeUnlikely
+    ? matches
+    : matches.filter(match => match.eligibilityStatus !== 'unlikely');
+
+  const pdf = new PdfDocument(title);
+  pdf.write(title, { bold: true, size: 18, spaceAfter: 4 });
+  pdf.write(
+    [
+      m.generated(generatedAt.toISOString().slice(0, 10)),
+      options.zipCode ? m.zip(options.zipCode) : '',
+      m.benefitCount(included.length),
+    ].filter(Boolean).join(' - '),
+    { color: GRAY }
+  );
+  pdf.write(m.disclaimer, { size: 8, color: GRAY });
+  if (options.locationResolved === false) {
+    pdf.write(m.unresolved(options.zipCode ?? ''), { size: 8, color: STATUS_COLORS.unlikely });
+  }
+
+  if (included.length === 0) {
+    pdf.space(12);
+    pdf.write(m.noMatches);
+  }
+
+  for (const [category, group] of Object.entries(groupBenefitsByCategory(included))) {
+    pdf.space(10);
+    pdf.keepTogether(80);
+    pdf.write(m.categories[category as BenefitCategory] ?? category, { bold: true, size: 14, spaceAfter: 0 });
+    pdf.rule();
+
+    for (const match of group) {
+      writeMatch(pdf, match, locale);
+    }
+  }
+
+  return pdf.toBytes();
+}
+
+function writeMatch(pdf: PdfDocument, match: BenefitMatch, locale: Locale): void {
+  const m = MESSAGES[locale];
+  const { benefit } = match;
+  const { action } = benefit;
+  const indent = 12;
+
+  pdf.keepTogether(90);
+  pdf.write(benefit.name, { bold: true, size: 12, spaceAfter: 2 });
+  pdf.write(
+    `${m.status[match.eligibilityStatus]} ` +
+    `(${m.score(formatNumber(match.matchScore, locale), formatNumber(Math.round(match.confidence * 100), locale))})`,
+    { bold: true, color: STATUS_COLORS[match.eligibilityStatus], spaceAfter: 2 }
+  );
+
+  if (match.estimatedAnnualValue) {
+    pdf.write(m.value(formatCurrency(match.estimatedAnnualValue, locale)), { spaceAfter: 2 });
+  }
+  pdf.write(benefit.summary, { spaceAfter: 4 });
+
+  // Failed checks first, then what we'd still need to know
+  const notes = explainMatch(match, locale);
+  if (notes.length) {
+    pdf.write(match.eligibilityStatus === 'likely' ? m.toConfirm : m.openQuestions, { bold: true, spaceAfter: 1 });
+    for (const note of notes) {
+      pdf.write(`- ${note}`, { indent, spaceAfter: 1 });
+    }
+    pdf.space(2);
+  }
+
+  pdf.write(m.howToApply, { bold: true, spaceAfter: 1 });
+  if (action.formNumber) pdf.write(`${m.form}: ${action.formNumber}`, { indent, spaceAfter: 1 });
+  if (action.phone) pdf.write(`${m.phone}: ${action.phone}`, { indent, spaceAfter: 1 });
+  if (action.address) pdf.write(`${m.address}: ${action.address}`, { indent, spaceAfter: 1 });
+  if (action.url) pdf.link(action.url, action.url, { indent, spaceAfter: 1 });
+
+  pdf.write(m.source(benefit.source.name, benefit.source.lastVerified), {
+    size: 8,
+    color: GRAY,
+    spaceAfter: 0,
+  });
+  pdf.link(benefit.source.url, benefit.source.url, { size: 8, spaceAfter: 0 });
+  if (match.stale) {
+    pdf.write(benefit.source.lastVerified ? m.stale : m.unverified, {
+      size: 8,
+      color: STATUS_COLORS.unlikely,
+      spaceAfter: 0,
+    });
+  }
+  pdf.space(10);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { federalBenefits } from '../data/benefits/federal';
+import type { Dependent, VeteranProfile } from '../data/schema';
+import { qualifyingChildren } from './family';
+import { matchBenefits } from './lookup';
+
+function withChildren(...children: Omit<Dependent, 'relationship'>[]): VeteranProfile {
+  return { zipCode: '78701', dependents: children.map(c => ({ relationship: 'child', ...c })) };
+}
+
+describe('qualifyingChildren', () => {
+  it('counts children through age 17', () => {
+    expect(qualifyingChildren(withChildren({ age: 17 }))).toBe(1);
+    expect(qualifyingChildren(withChildren({ age: 18, isStudent: false }))).toBe(0);
+  });
+
+  it('counts students through age 22', () => {
+    expect(qualifyingChildren(withChildren({ age: 18, isStudent: true }))).toBe(1);
+    expect(qualifyingChildren(withChildren({ age: 22, isStudent: true }))).toBe(1);
+    expect(qualifyingChildren(withChildren({ age: 23, isStudent: true }))).toBe(0);
+  });
+
+  it('counts a child disabled before 18 at any age', () => {
+    expect(qualifyingChildren(withChildren({ age: 40, isDisabled: true }))).toBe(1);
+  });
+
+  it("is unknown until we know each child's age, and school status past 17", () => {
+    expect(qualifyingChildren({ zipCode: '78701' })).toBeUndefined();
+    expect(qualifyingChildren(withChildren({ age: 10 }, {}))).toBeUndefined();
+    expect(qualifyingChildren(withChildren({ age: 19 }))).toBeUndefined();
+  });
+
+  it('skips dependents who are not children', () => {
+    const profile: VeteranProfile = {
+      zipCode: '78701',
+      dependents: [{ relationship: 'spouse', age: 16 }, { relationship: 'parent', age: 80 }],
+    };
+    expect(qualifyingChildren(profile)).toBe(0);
+  });
+});
+
+describe('CHAMPVA child requirement', () => {
+  const champva = federalBenefits.find(b => b.id === 'va-champva')!;
+  const childOf: VeteranProfile = { zipCode: '78701', applicantRelationship: 'child', disabilityRating: 100 };
+
+  it('follows the qualifying children count', () => {
+    const status = (...children: Omit<Dependent, 'relationship'>[]) =>
+      matchBenefits({ ...childOf, ...withChildren(...children) }, [champva])[0].eligibilityStatus;
+
+    expect(status({ age: 20, isStudent: true })).toBe('likely');
+    expect(status({ age: 24, isStudent: true })).toBe('unlikely');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Applicants and dependents
+ *
+ * Lets matching run for someone other than the veteran: a surviving
+ * spouse, a child, a caregiver. Benefits list who may apply in
+ * `eligibility.applicants`; service and disability requirements keep
+ * reading the veteran's record, which a survivor enters on their behalf.
+ */
+
+import type { ApplicantRelationship, Benefit, Dependent, VeteranProfile } from '../data/schema';
+
+// VA's usual limits for a dependent child
+const CHILD_MAX_AGE = 17;
+const STUDENT_CHILD_MAX_AGE = 22;
+
+export function applicantRelationship(profile: VeteranProfile): ApplicantRelationship {
+  return profile.applicantRelationship ?? 'veteran';
+}
+
+/**
+ * Age of whoever is applying: the veteran's age unless someone else applies
+ */
+export function applicantAge(profile: VeteranProfile): number | undefined {
+  return applicantRelationship(profile) === 'veteran'
+    ? profile.applicantAge ?? profile.age
+    : profile.applicantAge;
+}
+
+/**
+ * Whether the applicant is the survivor of a deceased veteran
+ */
+export function isSurvivor(profile: VeteranProfile): boolean | undefined {
+  if (profile.isSurvivor !== undefined) return profile.isSurvivor;
+
+  const relationship = applicantRelationship(profile);
+  if (relationship === 'surviving-spouse') return true;
+  if (relationship === 'veteran') return false;
+  return profile.veteranDeceased;
+}
+
+/**
+ * Whether the veteran has dependents, from the flag or the dependents list
+ */
+export function hasDependents(profile: VeteranProfile): boolean | undefined {
+  if (profile.hasDependents !== undefined) return profile.hasDependents;
+  return profile.dependents ? profile.dependents.length > 0 : undefined;
+}
+
+/**
+ * Children who count as dependents: under 18, under 23 and in school,
+ * or permanently disabled before 18. Undefined if we don't know the
+ * dependents, or a child's age.
+ */
+export function qualifyingChildren(profile: VeteranProfile): number | undefined {
+  if (!profile.dependents) return undefined;
+
+  let count = 0;
+  for (const child of profile.dependents.filter(d => d.relationship === 'child')) {
+    const qualifies = isQualifyingChild(child);
+    if (qualifies === undefined) return undefined;
+    if (qualifies) count++;
+  }
+  return count;
+}
+
+/**
+ * Whether the applicant is among those a benefit accepts
+ */
+export function acceptsApplicant(benefit: Benefit, profile: VeteranProfile): boolean {
+  const accepted = benefit.eligibility.applicants ?? ['veteran'];
+  return accepted.includes(applicantRelationship(profile));
+}
+
+function isQualifyingChild(child: Dependent): boolean | undefined {
+  if (child.isDisabled) return true;
+  if (child.age === undefined) return undefined;
+  if (child.age <= CHILD_MAX_AGE) return true;
+  if (child.age <= STUDENT_CHILD_MAX_AGE && child.isStudent !== undefined) return child.isStudent;
+  return child.age <= STUDENT_CHILD_MAX_AGE ? undefined : false;
+}
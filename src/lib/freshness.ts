@@ -0,0 +1,104 @@
+/**
+ * Data freshness
+ *
+ * Every record says when someone last checked it against its source
+ * (`source.lastVerified`). Local programs change hands, budgets and
+ * phone numbers far more often than federal ones, so how long a
+ * verification stays good depends on the benefit's level. Records nobody
+ * has checked yet (`lastVerified: null`) are always due.
+ */
+
+import type { Benefit, BenefitLevel } from '../data/schema';
+
+// Days a verification stays current, by level
+export type FreshnessPolicy = Record<BenefitLevel, number>;
+
+export const DEFAULT_FRESHNESS_POLICY: FreshnessPolicy = {
+  federal: 365,
+  state: 180,
+  county: 120,
+  city: 120,
+  nonprofit: 90,
+};
+
+export interface StaleBenefit {
+  benefit: Benefit;
+  lastVerified: string | null;   // Null if never verified
+  dueDate: string | null;        // ISO date re-verification was due; null if never verified
+  daysOverdue: number | null;    // Null if never verified
+}
+
+export interface StaleSourceGroup {
+  source: string;                // source.name
+  benefits: StaleBenefit[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Date a benefit's verification runs out, or null if it was never verified
+ */
+export function verificationDueDate(
+  benefit: Benefit,
+  policy: FreshnessPolicy = DEFAULT_FRESHNESS_POLICY
+): string | null {
+  if (benefit.source.lastVerified === null) return null;
+  const verified = Date.parse(`${benefit.source.lastVerified}T00:00:00Z`);
+  return new Date(verified + policy[benefit.level] * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a benefit is past its re-verification date on `asOf`, or was
+ * never verified
+ */
+export function isStale(
+  benefit: Benefit,
+  asOf: Date = new Date(),
+  policy: FreshnessPolicy = DEFAULT_FRESHNESS_POLICY
+): boolean {
+  const dueDate = verificationDueDate(benefit, policy);
+  return dueDate === null || asOf.toISOString().slice(0, 10) > dueDate;
+}
+
+/**
+ * Benefits overdue for re-verification: never verified first, then most
+ * overdue first
+ */
+export function findStaleBenefits(
+  benefits: Benefit[],
+  asOf: Date = new Date(),
+  policy: FreshnessPolicy = DEFAULT_FRESHNESS_POLICY
+): StaleBenefit[] {
+  const today = Date.parse(`${asOf.toISOString().slice(0, 10)}T00:00:00Z`);
+
+  return benefits
+    .filter(benefit => isStale(benefit, asOf, policy))
+    .map(benefit => {
+      const dueDate = verificationDueDate(benefit, policy);
+      return {
+        benefit,
+        lastVerified: benefit.source.lastVerified,
+        dueDate,
+        daysOverdue: dueDate === null
+          ? null
+          : Math.round((today - Date.parse(`${dueDate}T00:00:00Z`)) / MS_PER_DAY),
+      };
+    })
+    .sort((a, b) => (b.daysOverdue ?? Infinity) - (a.daysOverdue ?? Infinity));
+}
+
+/**
+ * Group stale benefits by who publishes them, so one person can
+ * re-check everything from the same agency in one pass
+ */
+export function groupStaleBySource(stale: StaleBenefit[]): StaleSourceGroup[] {
+  const groups = new Map<string, StaleBenefit[]>();
+  for (const entry of stale) {
+    const name = entry.benefit.source.name;
+    groups.set(name, [...groups.get(name) ?? [], entry]);
+  }
+
+  return [...groups]
+    .map(([source, benefits]) => ({ source, benefits }))
+    .sort((a, b) => b.benefits.length - a.benefits.length || a.source.localeCompare(b.source));
+}
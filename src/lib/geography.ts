@@ -0,0 +1,136 @@
+/**
+ * ZIP code geography
+ *
+ * Resolves a ZIP to every city/county it covers, using the bundled
+ * dataset in src/data/geo. The index is built once on first use.
+ */
+
+import { US_STATES } from '../data/geo/states';
+import { zipDataset, type ZipDataset } from '../data/geo/zip-codes';
+
+export interface ZipLocation {
+  zip: string;
+  city: string;
+  county: string;
+  countyFips: string;
+  state: string;
+  stateCode: string;
+  primary: boolean;          // County holding most of the ZIP's addresses
+  latitude?: number;         // ZIP center, when the dataset has it
+  longitude?: number;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+let loadedDataset: ZipDataset | null = null;
+let zipIndex: Map<string, ZipLocation[]> | null = null;
+
+/**
+ * Build a ZIP -> locations index from a dataset
+ */
+export function buildZipIndex(dataset: ZipDataset): Map<string, ZipLocation[]> {
+  const index = new Map<string, ZipLocation[]>();
+
+  for (const [zip, city, stateCode, countyFipsCodes, center] of dataset.zips) {
+    const state = US_STATES[stateCode];
+    if (!state) {
+      throw new Error(`ZIP ${zip}: unknown state code ${stateCode}`);
+    }
+
+    const locations = countyFipsCodes.map((countyFips, i) => {
+      const county = dataset.counties[countyFips];
+      if (!county) {
+        throw new Error(`ZIP ${zip}: unknown county FIPS ${countyFips}`);
+      }
+      return {
+        zip,
+        city,
+        county,
+        countyFips,
+        state: state.name,
+        stateCode,
+        primary: i === 0,
+        ...(center ? { latitude: center[0], longitude: center[1] } : {}),
+      };
+    });
+
+    index.set(zip, locations);
+  }
+
+  return index;
+}
+
+/**
+ * Load the bundled dataset (or swap in another one, e.g. a newer import)
+ */
+export function loadZipDataset(dataset: ZipDataset = zipDataset): void {
+  zipIndex = buildZipIndex(dataset);
+  loadedDataset = dataset;
+}
+
+/**
+ * Version of the dataset currently loaded
+ */
+export function getZipDatasetVersion(): string {
+  return (loadedDataset ?? zipDataset).version;
+}
+
+/**
+ * Lookup zip code to every candidate location, primary county first.
+ * Returns an empty array for unknown or malformed ZIPs.
+ */
+export function lookupZipCode(zip: string): ZipLocation[] {
+  if (!zipIndex) loadZipDataset();
+  const normalized = normalizeZip(zip);
+  if (!normalized) return [];
+  return zipIndex!.get(normalized) ?? [];
+}
+
+/**
+ * State code and county FIPS for a ZIP, each only when the ZIP lies in
+ * just one of them
+ */
+export function zipStateAndCounty(zip: string): { state?: string; county?: string } {
+  const locations = lookupZipCode(zip);
+  const states = [...new Set(locations.map(l => l.stateCode))];
+  const counties = [...new Set(locations.map(l => l.countyFips))];
+  return {
+    ...(states.length === 1 ? { state: states[0] } : {}),
+    ...(counties.length === 1 ? { county: counties[0] } : {}),
+  };
+}
+
+/**
+ * Center of a ZIP, or undefined if it's unknown or has no coordinates
+ */
+export function zipCenter(zip: string): Coordinates | undefined {
+  const [location] = lookupZipCode(zip);
+  return location?.latitude !== undefined && location.longitude !== undefined
+    ? { latitude: location.latitude, longitude: location.longitude }
+    : undefined;
+}
+
+/**
+ * Great-circle distance in miles
+ */
+export function distanceMiles(a: Coordinates, b: Coordinates): number {
+  const rad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLon = rad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Accept "78701" or "78701-1234"; return the 5-digit ZIP or null
+ */
+export function normalizeZip(zip: string): string | null {
+  const match = /^(\d{5})(?:-\d{4})?$/.exec(zip.trim());
+  return match ? match[1] : null;
+}
@@ -0,0 +1,129 @@
+/**
+ * Localization
+ *
+ * Benefit records are written in English and carry other languages in
+ * `translations`. localizeBenefit swaps in one language's text, falling
+ * back to English field by field, so everything downstream (matching,
+ * explanations, the action plan) keeps working on plain Benefit objects.
+ */
+
+import type { Benefit, BenefitTranslation, Locale } from '../data/schema';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es'];
+
+// Regional formats used for numbers and dates
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-US',
+};
+
+/**
+ * Pick a supported locale from a language tag or an Accept-Language
+ * header ("es-MX,es;q=0.9,en;q=0.8"). Falls back to English.
+ */
+export function resolveLocale(value: string | null | undefined): Locale {
+  const tags = (value ?? '')
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter(tag => tag.language && tag.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  const match = tags.find(tag => (SUPPORTED_LOCALES as string[]).includes(tag.language));
+  return match ? match.language as Locale : DEFAULT_LOCALE;
+}
+
+/**
+ * A benefit with its text in `locale`. Untranslated fields stay English.
+ */
+export function localizeBenefit(benefit: Benefit, locale: Locale): Benefit {
+  const t = benefit.translations?.[locale];
+  if (locale === DEFAULT_LOCALE || !t) return benefit;
+
+  const requirements = t.eligibility?.requirements ?? [];
+  const steps = t.action?.steps ?? [];
+
+  return {
+    ...benefit,
+    name: t.name ?? benefit.name,
+    summary: t.summary ?? benefit.summary,
+    description: t.description ?? benefit.description,
+    eligibility: {
+      ...benefit.eligibility,
+      summary: t.eligibility?.summary ?? benefit.eligibility.summary,
+      requirements: benefit.eligibility.requirements.map((req, i) =>
+        requirements[i] ? { ...req, description: requirements[i] } : req
+      ),
+    },
+    action: {
+      ...benefit.action,
+      ...(benefit.action.steps
+        ? { steps: benefit.action.steps.map((step, i) => steps[i] ? { ...step, text: steps[i] } : step) }
+        : {}),
+      ...(benefit.action.instructions
+        ? { instructions: t.action?.instructions ?? benefit.action.instructions }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Fields of a benefit with no text in `locale`, as paths like
+ * "eligibility.requirements[2]". English never has any.
+ */
+export function missingTranslations(benefit: Benefit, locale: Locale): string[] {
+  if (locale === DEFAULT_LOCALE) return [];
+  const t: BenefitTranslation = benefit.translations?.[locale] ?? {};
+  const missing: string[] = [];
+
+  if (!t.summary) missing.push('summary');
+  if (!t.description) missing.push('description');
+  if (!t.eligibility?.summary) missing.push('eligibility.summary');
+  benefit.eligibility.requirements.forEach((_, i) => {
+    if (!t.eligibility?.requirements?.[i]) missing.push(`eligibility.requirements[${i}]`);
+  });
+  benefit.action.steps?.forEach((_, i) => {
+    if (!t.action?.steps?.[i]) missing.push(`action.steps[${i}]`);
+  });
+  if (benefit.action.instructions && !t.action?.instructions) {
+    missing.push('action.instructions');
+  }
+
+  return missing;
+}
+
+/**
+ * "$1,234" / "1234 US$" style amounts, whole dollars
+ */
+export function formatCurrency(amount: number, locale: Locale = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export function formatNumber(value: number, locale: Locale = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(INTL_LOCALES[locale]).format(value);
+}
+
+/**
+ * A yearly MM-DD date as "April 30" / "30 de abril"
+ */
+export function formatMonthDay(monthDay: string, locale: Locale = DEFAULT_LOCALE): string {
+  const [month, day] = monthDay.split('-').map(Number);
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], { month: 'long', day: 'numeric', timeZone: 'UTC' })
+    .format(new Date(Date.UTC(2000, month - 1, day)));
+}
+
+/**
+ * "a, b and c" / "a, b y c"
+ */
+export function formatList(items: string[], locale: Locale = DEFAULT_LOCALE): string {
+  return new Intl.ListFormat(INTL_LOCALES[locale], { type: 'conjunction' }).format(items);
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { VeteranProfile } from '../data/schema';
+import { resolveIncomeLimit } from './income';
+
+const GMT = { table: 'va-health-care-gmt' };
+const ASOF = new Date('2025-06-01');
+
+function gmt(profile: Omit<VeteranProfile, 'householdSize'>, householdSize = 1) {
+  return resolveIncomeLimit(GMT, { ...profile, householdSize }, ASOF);
+}
+
+describe('resolveIncomeLimit', () => {
+  it('looks up a county table by the given county', () => {
+    expect(gmt({ zipCode: '78701', county: '48453' })).toEqual({ amount: 70650 });
+    expect(gmt({ zipCode: '78205', county: '48029' })).toEqual({ amount: 51750 });
+    expect(gmt({ zipCode: '77002', county: '48201' }, 4)).toEqual({ amount: 78250 });
+  });
+
+  it("uses the ZIP's county when no county is given", () => {
+    expect(gmt({ zipCode: '78681' })).toEqual({ amount: 70650 });
+    expect(gmt({ zipCode: '78205' }, 10)).toEqual({ amount: 97550 + 2 * 5900 });
+  });
+
+  it('settles a multi-county ZIP when its counties share a limit', () => {
+    expect(gmt({ zipCode: '78737' })).toEqual({ amount: 70650 });   // Travis and Hays
+  });
+
+  it('asks for the county when a ZIP spans counties with different limits', () => {
+    expect(gmt({ zipCode: '78154' })).toEqual({ amount: undefined, missing: ['county'] });
+    expect(gmt({ zipCode: '78154', county: '48029' })).toEqual({ amount: 51750 });
+  });
+
+  it('falls back to the national threshold for counties not listed', () => {
+    expect(gmt({ zipCode: '33101' }, 2)).toEqual({ amount: 53196 });
+  });
+
+  it('needs the household size', () => {
+    expect(resolveIncomeLimit(GMT, { zipCode: '78701' }, ASOF)).toEqual({ amount: undefined, missing: ['householdSize'] });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Income limit lookup
+ *
+ * Resolves an IncomeLimit (table + percent) to a dollar amount for a
+ * profile's household on a given date. Returns which profile fields are
+ * missing when the amount can't be determined yet.
+ */
+
+import type { IncomeLimit, RuleField, VeteranProfile } from '../data/schema';
+import {
+  getIncomeThresholdTable,
+  type ThresholdAmounts,
+  type ThresholdEdition,
+} from '../data/income-thresholds';
+import { lookupZipCode } from './geography';
+
+export type IncomeLimitResult =
+  | { amount: number }
+  | { amount: undefined; missing: RuleField[] };
+
+/**
+ * Edition of a table in effect on a date
+ */
+export function getThresholdEdition(tableId: string, asOf: Date): ThresholdEdition | undefined {
+  const table = getIncomeThresholdTable(tableId);
+  if (!table) throw new Error(`Unknown income threshold table: ${tableId}`);
+
+  const day = asOf.toISOString().slice(0, 10);
+  return table.editions.find(edition =>
+    edition.effectiveFrom <= day && (!edition.effectiveTo || day <= edition.effectiveTo)
+  );
+}
+
+/**
+ * Amount for a household size, extending the table past its last row
+ */
+export function amountForHousehold(amounts: ThresholdAmounts, householdSize: number): number {
+  const rows = amounts.byHouseholdSize;
+  const size = Math.max(1, Math.floor(householdSize));
+  if (size <= rows.length) return rows[size - 1];
+  return rows[rows.length - 1] + (size - rows.length) * amounts.additionalPerPerson;
+}
+
+/**
+ * Dollar limit for a profile. County tables use profile.county (FIPS)
+ * or, failing that, the ZIP's counties when they all agree.
+ */
+export function resolveIncomeLimit(
+  limit: IncomeLimit,
+  profile: VeteranProfile,
+  asOf: Date = new Date()
+): IncomeLimitResult {
+  const table = getIncomeThresholdTable(limit.table);
+  if (!table) throw new Error(`Unknown income threshold table: ${limit.table}`);
+
+  const edition = getThresholdEdition(limit.table, asOf);
+  if (!edition) {
+    // No published figures for that date; nothing the veteran can tell us helps
+    return { amount: undefined, missing: [] };
+  }
+  if (profile.householdSize === undefined) {
+    return { amount: undefined, missing: ['householdSize'] };
+  }
+
+  const candidates = regionalAmounts(edition, table.varies, profile);
+  const amounts = [...new Set(candidates.map(a => amountForHousehold(a, profile.householdSize!)))];
+  if (amounts.length !== 1) {
+    return { amount: undefined, missing: [table.varies === 'county' ? 'county' : 'state'] };
+  }
+
+  const percent = limit.percent ?? 100;
+  return { amount: Math.round((amounts[0] * percent) / 100) };
+}
+
+/**
+ * Amounts that could apply to the profile's location
+ */
+function regionalAmounts(
+  edition: ThresholdEdition,
+  varies: 'national' | 'state' | 'county',
+  profile: VeteranProfile
+): ThresholdAmounts[] {
+  if (varies === 'national') return [edition];
+
+  const locations = lookupZipCode(profile.zipCode);
+
+  if (varies === 'state') {
+    const states = profile.state
+      ? [profile.state]
+      : [...new Set(locations.map(l => l.stateCode))];
+    if (states.length === 0) return [];
+    return states.map(code => edition.byState?.[code] ?? edition);
+  }
+
+  const counties = profile.county && /^\d{5}$/.test(profile.county)
+    ? [profile.county]
+    : locations.map(l => l.countyFips);
+  return counties.map(fips => edition.byCounty?.[fips] ?? edition);
+}
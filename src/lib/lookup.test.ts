@@ -0,0 +1,148 @@
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import type { Benefit } from '../data/schema';
+import { createBenefitCatalog, loadBenefitCatalog } from './catalog';
+import { matchBenefits, resolveBenefitsForLocation } from './lookup';
+
+function benefit(id: string, level: Benefit['level'], coverage: Benefit['coverage']): Benefit {
+  return {
+    id,
+    name: id,
+    summary: `${id} summary`,
+    description: `${id} description`,
+    category: 'financial',
+    level,
+    coverage,
+    eligibility: { summary: 'Anyone', requirements: [] },
+    action: { type: 'online', instructions: 'Apply online' },
+    source: { name: 'Test', url: 'https://example.org/', lastVerified: '2025-01-01' },
+    tags: [],
+  };
+}
+
+const BENEFITS: Benefit[] = [
+  benefit('federal', 'federal', {}),
+  benefit('texas', 'state', { states: ['TX'] }),
+  benefit('california', 'state', { states: ['CA'] }),
+  benefit('travis', 'county', { states: ['TX'], counties: ['48453'] }),
+  benefit('hays', 'county', { states: ['TX'], counties: ['48209'] }),
+  benefit('bexar', 'county', { states: ['TX'], counties: ['48029'] }),
+  benefit('austin', 'city', { states: ['TX'], cities: ['Austin, TX'] }),
+  benefit('round-rock', 'city', { states: ['TX'], cities: ['Round Rock, TX'] }),
+  benefit('downtown-austin', 'city', { states: ['TX'], zipCodes: ['78701', '78702'] }),
+  benefit('houston-area', 'nonprofit', { states: ['TX'], radius: { zip: '77002', miles: 25 } }),
+  benefit('two-counties', 'nonprofit', { states: ['TX'], counties: ['48453', '48491'] }),
+];
+
+function idsFor(zip: string): string[] {
+  return resolveBenefitsForLocation(zip, BENEFITS).benefits.map(b => b.id);
+}
+
+describe('resolveBenefitsForLocation', () => {
+  it('filters by state and county', () => {
+    expect(idsFor('78205')).toEqual(['federal', 'texas', 'bexar']);
+  });
+
+  it('filters by USPS city name', () => {
+    expect(idsFor('78745')).toEqual(['federal', 'texas', 'travis', 'austin', 'two-counties']);
+    expect(idsFor('78681')).toEqual(['federal', 'texas', 'round-rock', 'two-counties']);
+  });
+
+  it('filters by ZIP list', () => {
+    expect(idsFor('78701')).toContain('downtown-austin');
+    expect(idsFor('78745')).not.toContain('downtown-austin');
+  });
+
+  it('filters by distance from a ZIP center', () => {
+    expect(idsFor('77004')).toContain('houston-area');
+    expect(idsFor('77449')).toContain('houston-area');    // Katy, about 23 miles out
+    expect(idsFor('77494')).not.toContain('houston-area'); // Katy, about 28 miles out
+    expect(idsFor('78701')).not.toContain('houston-area');
+  });
+
+  it('matches a county list against any of its counties', () => {
+    expect(idsFor('78681')).toContain('two-counties');   // Williamson
+    expect(idsFor('78701')).toContain('two-counties');   // Travis
+    expect(idsFor('78205')).not.toContain('two-counties');
+  });
+
+  it('lists benefits from every county a ZIP spans, flagging the partial ones', () => {
+    const result = resolveBenefitsForLocation('78737', BENEFITS);
+
+    expect(result.resolved).toBe(true);
+    expect(result.ambiguous).toBe(true);
+    expect(result.locations.map(l => l.countyFips)).toEqual(['48453', '48209']);
+    expect(result.locations.map(l => l.primary)).toEqual([true, false]);
+    expect(result.benefits.map(b => b.id)).toEqual(['federal', 'texas', 'travis', 'hays', 'austin', 'two-counties']);
+    expect(result.ambiguousBenefitIds).toEqual(['travis', 'hays', 'two-counties']);
+  });
+
+  it('handles a ZIP across three counties', () => {
+    const result = resolveBenefitsForLocation('78154', BENEFITS);
+
+    expect(result.ambiguous).toBe(true);
+    expect(result.locations).toHaveLength(3);
+    expect(result.benefits.map(b => b.id)).toEqual(['federal', 'texas', 'bexar']);
+    expect(result.ambiguousBenefitIds).toEqual(['bexar']);
+  });
+
+  it("isn't ambiguous for a ZIP in one county", () => {
+    const result = resolveBenefitsForLocation('78701', BENEFITS);
+
+    expect(result.ambiguous).toBe(false);
+    expect(result.ambiguousBenefitIds).toEqual([]);
+  });
+
+  it('resolves ZIPs outside Texas', () => {
+    const result = resolveBenefitsForLocation('33101', BENEFITS);
+
+    expect(result.resolved).toBe(true);
+    expect(result.locations.map(l => [l.city, l.stateCode, l.county])).toEqual([['Miami', 'FL', 'Miami-Dade County']]);
+    expect(result.benefits.map(b => b.id)).toEqual(['federal']);
+    expect(idsFor('90210')).toEqual(['federal', 'california']);
+  });
+
+  it('falls back to federal benefits for a ZIP outside the geography data', () => {
+    const result = resolveBenefitsForLocation('00000', BENEFITS);
+
+    expect(result.resolved).toBe(false);
+    expect(result.locations).toEqual([]);
+    expect(result.benefits.map(b => b.id)).toEqual(['federal']);
+  });
+});
+
+describe('catalog.forLocation', () => {
+  it('finds the same benefits as a linear lookup', () => {
+    const catalog = createBenefitCatalog(BENEFITS);
+
+    for (const zip of ['78701', '78737', '78154', '78681', '77449', '77494', '33101', '00000']) {
+      expect(catalog.forLocation(zip)).toEqual(resolveBenefitsForLocation(zip, BENEFITS));
+    }
+  });
+});
+
+describe('Texas local data', () => {
+  const loaded = loadBenefitCatalog(join(process.cwd(), 'data/benefits'));
+
+  it('loads without errors', async () => {
+    expect((await loaded).errors).toEqual([]);
+  });
+
+  it('finds city records by city name and by ZIP', async () => {
+    const { catalog } = await loaded;
+    const idsAt = (zip: string) => catalog.forLocation(zip).benefits.map(b => b.id);
+
+    expect(idsAt('78205')).toContain('san-antonio-military-veteran-affairs');
+    expect(idsAt('78154')).not.toContain('san-antonio-military-veteran-affairs');
+    expect(idsAt('77339')).toContain('houston-veterans-affairs');
+    expect(idsAt('77449')).not.toContain('houston-veterans-affairs');
+  });
+
+  it('matches the county service office from the ZIP alone', async () => {
+    const { catalog } = await loaded;
+    const match = matchBenefits({ zipCode: '78701' }, [...catalog.benefits])
+      .find(m => m.benefit.id === 'travis-county-veterans-service-office');
+    expect(match?.eligibilityStatus).toBe('likely');
+    expect(match?.missingInfo).toEqual([]);
+  });
+});
@@ -5,83 +5,170 @@
  * from federal down to local level.
  */
 
-import type { Benefit, BenefitMatch, VeteranProfile } from '../data/schema';
-
-// Zip code to location mapping (would be loaded from data file)
-interface ZipLocation {
-  zip: string;
-  city: string;
-  county: string;
-  countyFips: string;
-  state: string;
-  stateCode: string;
+import type {
+  Benefit,
+  BenefitMatch,
+  EligibilityRequirement,
+  Locale,
+  RequirementTrace,
+  VeteranProfile,
+} from '../data/schema';
+import { acceptsApplicant } from './family';
+import { isStale } from './freshness';
+import { distanceMiles, lookupZipCode, zipCenter, zipStateAndCounty, type ZipLocation } from './geography';
+import { DEFAULT_LOCALE, localizeBenefit } from './i18n';
+import { criteriaToRule, evaluateRule } from './rules';
+import { defaultScoring, estimateAnnualValue, expectedValue, type ScoringStrategy } from './scoring';
+import { isEffective } from './versioning';
+
+export interface LocationBenefits {
+  benefits: Benefit[];
+  resolved: boolean;             // False if the ZIP isn't in our geography data (federal benefits only)
+  locations: ZipLocation[];      // Every county/city the ZIP covers
+  ambiguous: boolean;            // ZIP spans more than one county
+  ambiguousBenefitIds: string[]; // Benefits that apply in only some of those counties
 }
 
 /**
- * Get all benefits available at a location
+ * Get all benefits available at a location, with text in `locale`
  */
 export function getBenefitsForLocation(
   zipCode: string,
-  allBenefits: Benefit[]
+  allBenefits: Benefit[],
+  locale: Locale = DEFAULT_LOCALE
 ): Benefit[] {
-  const location = lookupZipCode(zipCode);
-  if (!location) {
+  return resolveBenefitsForLocation(zipCode, allBenefits, locale).benefits;
+}
+
+/**
+ * Get benefits for a ZIP along with every candidate location.
+ *
+ * A benefit matches if it applies in any of the ZIP's counties. When it
+ * applies in some but not all of them, we can't tell which side of the
+ * county line the veteran lives on, so it's listed in ambiguousBenefitIds.
+ */
+export function resolveBenefitsForLocation(
+  zipCode: string,
+  allBenefits: Benefit[],
+  locale: Locale = DEFAULT_LOCALE
+): LocationBenefits {
+  const locations = lookupZipCode(zipCode);
+  if (locations.length === 0) {
     // Return only federal benefits if we can't resolve location
-    return allBenefits.filter(b => b.level === 'federal');
+    return {
+      benefits: allBenefits.filter(b => b.level === 'federal').map(b => localizeBenefit(b, locale)),
+      resolved: false,
+      locations,
+      ambiguous: false,
+      ambiguousBenefitIds: [],
+    };
   }
 
-  return allBenefits.filter(benefit => {
-    // Federal benefits always apply
-    if (benefit.level === 'federal') return true;
+  const benefits: Benefit[] = [];
+  const ambiguousBenefitIds: string[] = [];
 
-    const { coverage } = benefit;
+  for (const benefit of allBenefits) {
+    const matching = locations.filter(location => appliesAt(benefit, location));
+    if (matching.length === 0) continue;
 
-    // Check state match
-    if (coverage.states?.length) {
-      if (!coverage.states.includes(location.stateCode)) return false;
+    benefits.push(localizeBenefit(benefit, locale));
+    if (matching.length < locations.length) {
+      ambiguousBenefitIds.push(benefit.id);
     }
+  }
 
-    // Check county match (if specified)
-    if (coverage.counties?.length) {
-      if (!coverage.counties.includes(location.countyFips)) return false;
-    }
+  return {
+    benefits,
+    resolved: true,
+    locations,
+    ambiguous: locations.length > 1,
+    ambiguousBenefitIds,
+  };
+}
 
-    // Check city match (if specified)
-    if (coverage.cities?.length) {
-      const cityKey = `${location.city}, ${location.stateCode}`;
-      if (!coverage.cities.includes(cityKey)) return false;
-    }
+/**
+ * Check whether a benefit's coverage includes a single location
+ */
+function appliesAt(benefit: Benefit, location: ZipLocation): boolean {
+  // Federal benefits always apply
+  if (benefit.level === 'federal') return true;
 
-    // Check zip match (if specified)
-    if (coverage.zipCodes?.length) {
-      if (!coverage.zipCodes.includes(zipCode)) return false;
-    }
+  const { coverage } = benefit;
+
+  // Check state match
+  if (coverage.states?.length) {
+    if (!coverage.states.includes(location.stateCode)) return false;
+  }
+
+  // Check county match (if specified)
+  if (coverage.counties?.length) {
+    if (!coverage.counties.includes(location.countyFips)) return false;
+  }
+
+  // Check city match (if specified)
+  if (coverage.cities?.length) {
+    const cityKey = `${location.city}, ${location.stateCode}`;
+    if (!coverage.cities.includes(cityKey)) return false;
+  }
+
+  // Check zip match (if specified)
+  if (coverage.zipCodes?.length) {
+    if (!coverage.zipCodes.includes(location.zip)) return false;
+  }
 
-    return true;
-  });
+  // Check distance (if specified); without coordinates we can't tell, so no
+  if (coverage.radius) {
+    const center = zipCenter(coverage.radius.zip);
+    if (!center || location.latitude === undefined || location.longitude === undefined) return false;
+    const here = { latitude: location.latitude, longitude: location.longitude };
+    if (distanceMiles(center, here) > coverage.radius.miles) return false;
+  }
+
+  return true;
+}
+
+export interface MatchOptions {
+  asOf?: Date;                   // Match against benefits, requirements and limits in effect on this date
+  scoring?: ScoringStrategy;     // Defaults to weighted scoring
+  rankBy?: 'likelihood' | 'value';  // 'value' ranks by expected yearly dollars
+  locale?: Locale;               // Language of benefit text in the results; default English
+}
+
+/**
+ * Fill in state and county from the ZIP when the profile leaves them
+ * out and the ZIP only lies in one
+ */
+export function withZipLocation<T extends Partial<VeteranProfile>>(profile: T): T {
+  if (!profile.zipCode) return profile;
+  const derived = zipStateAndCounty(profile.zipCode);
+  return {
+    ...profile,
+    state: profile.state ?? derived.state,
+    county: profile.county ?? derived.county,
+  };
 }
 
 /**
  * Match benefits to a veteran's profile
  */
 export function matchBenefits(
-  profile: VeteranProfile,
-  benefits: Benefit[]
+  veteran: VeteranProfile,
+  benefits: Benefit[],
+  options: MatchOptions = {}
 ): BenefitMatch[] {
-  const locationBenefits = getBenefitsForLocation(profile.zipCode, benefits);
+  const profile = withZipLocation(veteran);
+  const locationBenefits = getBenefitsForLocation(profile.zipCode, benefits, options.locale)
+    .filter(benefit => isEffective(benefit, options.asOf))
+    .filter(benefit => acceptsApplicant(benefit, profile));
 
-  return locationBenefits.map(benefit => {
-    const { matchScore, eligibilityStatus, matchedRequirements, missingInfo } =
-      calculateMatch(profile, benefit);
+  const matches = locationBenefits.map(benefit => calculateMatch(profile, benefit, options));
 
-    return {
-      benefit,
-      matchScore,
-      eligibilityStatus,
-      matchedRequirements,
-      missingInfo,
-    };
-  }).sort((a, b) => b.matchScore - a.matchScore);
+  if (options.rankBy === 'value') {
+    return matches.sort((a, b) =>
+      expectedValue(b) - expectedValue(a) || b.matchScore - a.matchScore
+    );
+  }
+  return matches.sort((a, b) => b.matchScore - a.matchScore);
 }
 
 /**
@@ -89,145 +176,64 @@ export function matchBenefits(
  */
 function calculateMatch(
   profile: VeteranProfile,
-  benefit: Benefit
-): {
-  matchScore: number;
-  eligibilityStatus: 'likely' | 'possible' | 'unlikely' | 'unknown';
-  matchedRequirements: string[];
-  missingInfo: string[];
-} {
+  benefit: Benefit,
+  options: MatchOptions
+): BenefitMatch {
   const matchedRequirements: string[] = [];
   const missingInfo: string[] = [];
-  let totalRequirements = benefit.eligibility.requirements.length;
-  let metRequirements = 0;
+  const trace: RequirementTrace[] = [];
+
+  const requirements = benefit.eligibility.requirements.filter(req => isEffective(req, options.asOf));
 
-  for (const req of benefit.eligibility.requirements) {
-    const { met, needsInfo } = checkRequirement(profile, req);
-    if (met === true) {
-      metRequirements++;
+  for (const req of requirements) {
+    const result = checkRequirement(profile, req, options);
+    trace.push(result);
+    if (result.outcome === 'met') {
       matchedRequirements.push(req.description);
-    } else if (met === null || needsInfo) {
+    } else if (result.outcome === 'unknown') {
       missingInfo.push(req.description);
     }
   }
 
-  // Calculate score
-  const matchScore = totalRequirements > 0
-    ? Math.round((metRequirements / totalRequirements) * 100)
-    : 50; // Default if no requirements
-
-  // Determine status
-  let eligibilityStatus: 'likely' | 'possible' | 'unlikely' | 'unknown';
-  if (missingInfo.length === totalRequirements) {
-    eligibilityStatus = 'unknown';
-  } else if (matchScore >= 80) {
-    eligibilityStatus = 'likely';
-  } else if (matchScore >= 50) {
-    eligibilityStatus = 'possible';
-  } else {
-    eligibilityStatus = 'unlikely';
-  }
+  const scoring = options.scoring ?? defaultScoring;
+  const { matchScore, eligibilityStatus, confidence } = scoring.score(trace, benefit, profile);
 
-  return { matchScore, eligibilityStatus, matchedRequirements, missingInfo };
+  return {
+    benefit,
+    matchScore,
+    eligibilityStatus,
+    confidence,
+    estimatedAnnualValue: estimateAnnualValue(benefit, profile),
+    stale: isStale(benefit, options.asOf),
+    matchedRequirements,
+    missingInfo,
+    trace,
+  };
 }
 
 /**
- * Check if a veteran meets a specific requirement
+ * Check if a veteran meets a specific requirement, keeping every
+ * comparison so we can explain the outcome
  */
-function checkRequirement(
+export function checkRequirement(
   profile: VeteranProfile,
-  req: { type: string; criteria?: any }
-): { met: boolean | null; needsInfo: boolean } {
-  const { criteria } = req;
+  req: EligibilityRequirement,
+  options: MatchOptions = {}
+): RequirementTrace {
+  const rule = criteriaToRule(req.criteria);
 
-  if (!criteria) {
+  if (!rule) {
     // No structured criteria, can't auto-check
-    return { met: null, needsInfo: true };
-  }
-
-  switch (req.type) {
-    case 'disability':
-      if (profile.disabilityRating === undefined) {
-        return { met: null, needsInfo: true };
-      }
-      if (criteria.minDisabilityRating !== undefined) {
-        return {
-          met: profile.disabilityRating >= criteria.minDisabilityRating,
-          needsInfo: false
-        };
-      }
-      break;
-
-    case 'service':
-      if (criteria.dischargeTypes && profile.dischargeStatus) {
-        return {
-          met: criteria.dischargeTypes.includes(profile.dischargeStatus),
-          needsInfo: false
-        };
-      }
-      if (criteria.minServiceDays !== undefined && profile.yearsOfService !== undefined) {
-        const serviceDays = profile.yearsOfService * 365;
-        return {
-          met: serviceDays >= criteria.minServiceDays,
-          needsInfo: false
-        };
-      }
-      return { met: null, needsInfo: true };
-
-    case 'income':
-      if (profile.incomeLevel === undefined) {
-        return { met: null, needsInfo: true };
-      }
-      // Simplified income check
-      return { met: null, needsInfo: true };
-
-    case 'family':
-      if (criteria.requiresSpouse && profile.hasSpouse === undefined) {
-        return { met: null, needsInfo: true };
-      }
-      if (criteria.requiresSpouse) {
-        return { met: profile.hasSpouse === true, needsInfo: false };
-      }
-      break;
+    return { requirement: req, outcome: 'unknown', fields: [], checks: [] };
   }
 
-  return { met: null, needsInfo: true };
-}
-
-/**
- * Lookup zip code to location info
- * TODO: Load from actual zip code database
- */
-function lookupZipCode(zip: string): ZipLocation | null {
-  // Placeholder - would load from a zip code database
-  const sampleData: Record<string, ZipLocation> = {
-    '78701': {
-      zip: '78701',
-      city: 'Austin',
-      county: 'Travis County',
-      countyFips: '48453',
-      state: 'Texas',
-      stateCode: 'TX'
-    },
-    '78205': {
-      zip: '78205',
-      city: 'San Antonio',
-      county: 'Bexar County',
-      countyFips: '48029',
-      state: 'Texas',
-      stateCode: 'TX'
-    },
-    '77001': {
-      zip: '77001',
-      city: 'Houston',
-      county: 'Harris County',
-      countyFips: '48201',
-      state: 'Texas',
-      stateCode: 'TX'
-    }
+  const { outcome, leaves } = evaluateRule(rule, profile, { asOf: options.asOf });
+  return {
+    requirement: req,
+    outcome,
+    fields: [...new Set(leaves.flatMap(check => [check.field, ...check.missing ?? []]))],
+    checks: leaves,
   };
-
-  return sampleData[zip] || null;
 }
 
 /**
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { allBenefits } from '../data/benefits';
+import { nextQuestion, rankQuestions } from './questions';
+
+describe('rankQuestions', () => {
+  it('asks for the ZIP first', () => {
+    expect(nextQuestion({}, allBenefits)?.field).toBe('zipCode');
+  });
+
+  it('asks for service dates, not years, to settle day thresholds', () => {
+    const fields = rankQuestions({ zipCode: '78701', dischargeStatus: 'honorable' }, allBenefits)
+      .map(q => q.question.field);
+
+    expect(fields[0]).toBe('servicePeriods');
+    expect(fields).not.toContain('yearsOfService');
+    expect(fields).not.toContain('serviceDays');
+  });
+
+  it("doesn't ask for state or county the ZIP already answers", () => {
+    const fields = rankQuestions({ zipCode: '78701' }, allBenefits).map(q => q.question.field);
+
+    expect(fields).not.toContain('state');
+    expect(fields).not.toContain('county');
+  });
+});
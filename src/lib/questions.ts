@@ -0,0 +1,264 @@
+/**
+ * Adaptive intake questions
+ *
+ * Instead of asking every question up front, ask for the profile field
+ * that would settle the most open matches. A match is "open" while its
+ * status is unknown or possible; a field settles it if one of its
+ * unknown requirements is waiting on that field.
+ */
+
+import {
+  DISCHARGE_STATUSES,
+  type Benefit,
+  type BenefitMatch,
+  type RuleField,
+  type VeteranProfile,
+} from '../data/schema';
+import { US_STATES } from '../data/geo/states';
+import { lookupZipCode } from './geography';
+import { matchBenefits, withZipLocation } from './lookup';
+
+export type AskableField = keyof VeteranProfile;
+
+export interface FollowUpQuestion {
+  field: AskableField;
+  text: string;
+  answerType: 'choice' | 'multi-choice' | 'number' | 'boolean' | 'text'
+    | 'service-periods'          // Entry and separation dates, see ServicePeriod
+    | 'dependents';              // Each dependent's relationship and age, see Dependent
+  options?: { value: string; label: string }[];
+  min?: number;
+  max?: number;
+}
+
+export interface RankedQuestion {
+  question: FollowUpQuestion;
+  settles: number;               // Open matches this answer could settle
+  benefitIds: string[];
+}
+
+export const QUESTIONS: Partial<Record<AskableField, FollowUpQuestion>> = {
+  zipCode: {
+    field: 'zipCode',
+    text: 'What is your ZIP code?',
+    answerType: 'text',
+  },
+  county: {
+    field: 'county',
+    text: 'Which county do you live in?',
+    answerType: 'text',
+  },
+  state: {
+    field: 'state',
+    text: 'Which state do you live in?',
+    answerType: 'choice',
+    options: Object.values(US_STATES).map(state => ({ value: state.code, label: state.name })),
+  },
+  stateResidencyMonths: {
+    field: 'stateResidencyMonths',
+    text: 'How many months have you lived in your current state?',
+    answerType: 'number',
+    min: 0,
+    max: 1200,
+  },
+  entryState: {
+    field: 'entryState',
+    text: 'Which state did you live in when you entered the military? It is the home of record on your DD214.',
+    answerType: 'choice',
+    options: Object.values(US_STATES).map(state => ({ value: state.code, label: state.name })),
+  },
+  dischargeStatus: {
+    field: 'dischargeStatus',
+    text: 'What type of discharge did you receive? It is listed on your DD214.',
+    answerType: 'choice',
+    options: DISCHARGE_STATUSES.map(value => ({ value, label: labelFor(value) })),
+  },
+  servicePeriods: {
+    field: 'servicePeriods',
+    text: 'When did each period of active duty start and end? The dates are on your DD214.',
+    answerType: 'service-periods',
+  },
+  yearsOfService: {
+    field: 'yearsOfService',
+    text: 'How many years did you serve on active duty?',
+    answerType: 'number',
+    min: 0,
+    max: 50,
+  },
+  disabilityRating: {
+    field: 'disabilityRating',
+    text: 'What is your combined VA disability rating? Enter 0 if you have none.',
+    answerType: 'number',
+    min: 0,
+    max: 100,
+  },
+  householdIncome: {
+    field: 'householdIncome',
+    text: "What is your household's total yearly income before taxes?",
+    answerType: 'number',
+    min: 0,
+  },
+  householdSize: {
+    field: 'householdSize',
+    text: 'How many people live in your household, including you?',
+    answerType: 'number',
+    min: 1,
+    max: 20,
+  },
+  age: {
+    field: 'age',
+    text: 'How old are you?',
+    answerType: 'number',
+    min: 0,
+    max: 120,
+  },
+  serviceEras: {
+    field: 'serviceEras',
+    text: 'When did you serve?',
+    answerType: 'multi-choice',
+    options: [
+      { value: 'vietnam', label: 'Vietnam era' },
+      { value: 'gulf', label: 'Gulf War' },
+      { value: 'post-911', label: 'After September 10, 2001' },
+    ],
+  },
+  applicantRelationship: {
+    field: 'applicantRelationship',
+    text: 'Who is applying for benefits?',
+    answerType: 'choice',
+    options: [
+      { value: 'veteran', label: 'I am the veteran' },
+      { value: 'spouse', label: "Veteran's spouse" },
+      { value: 'surviving-spouse', label: 'Surviving spouse of a veteran' },
+      { value: 'child', label: "Veteran's child" },
+      { value: 'parent', label: "Veteran's parent" },
+      { value: 'caregiver', label: "Veteran's caregiver" },
+    ],
+  },
+  applicantAge: {
+    field: 'applicantAge',
+    text: 'How old is the person applying?',
+    answerType: 'number',
+    min: 0,
+    max: 120,
+  },
+  hasRemarried: {
+    field: 'hasRemarried',
+    text: 'Have you remarried since the veteran passed away?',
+    answerType: 'boolean',
+  },
+  hasSpouse: {
+    field: 'hasSpouse',
+    text: 'Are you married?',
+    answerType: 'boolean',
+  },
+  dependents: {
+    field: 'dependents',
+    text: "List the veteran's children: each one's age, whether they're in school, and whether they became disabled before 18.",
+    answerType: 'dependents',
+  },
+};
+
+// Profile fields that are answered by asking about a different one.
+// Day thresholds are exact (181 days for Hazlewood), so service days are
+// asked as dates, never as a rough number of years.
+const ASKED_AS: Partial<Record<AskableField, AskableField>> = {
+  serviceDays: 'servicePeriods',
+};
+
+/**
+ * Rank the questions we could ask next, most useful first
+ */
+export function rankQuestions(
+  profile: Partial<VeteranProfile>,
+  benefits: Benefit[]
+): RankedQuestion[] {
+  if (!profile.zipCode) {
+    // Location decides which benefits are in play at all
+    return [{ question: QUESTIONS.zipCode!, settles: benefits.length, benefitIds: [] }];
+  }
+
+  // The ZIP may already answer state and county
+  const located = withZipLocation(profile);
+  const matches = matchBenefits(located as VeteranProfile, benefits);
+  const waiting = new Map<AskableField, Set<string>>();
+
+  for (const match of matches.filter(isOpen)) {
+    for (const field of unknownFields(match)) {
+      if (located[field] !== undefined || !QUESTIONS[field]) continue;
+      if (!waiting.has(field)) waiting.set(field, new Set());
+      waiting.get(field)!.add(match.benefit.id);
+    }
+  }
+
+  return [...waiting.entries()]
+    .map(([field, ids]) => ({
+      question: withLocalOptions(QUESTIONS[field]!, profile.zipCode!),
+      settles: ids.size,
+      benefitIds: [...ids],
+    }))
+    .sort((a, b) => b.settles - a.settles);
+}
+
+/**
+ * The single best question to ask next, or null if nothing would help
+ */
+export function nextQuestion(
+  profile: Partial<VeteranProfile>,
+  benefits: Benefit[]
+): FollowUpQuestion | null {
+  return rankQuestions(profile, benefits)[0]?.question ?? null;
+}
+
+function isOpen(match: BenefitMatch): boolean {
+  return match.eligibilityStatus === 'unknown' || match.eligibilityStatus === 'possible';
+}
+
+/**
+ * Profile fields that unknown requirements of a match are waiting on
+ */
+function unknownFields(match: BenefitMatch): Set<AskableField> {
+  const fields = new Set<AskableField>();
+
+  for (const trace of match.trace) {
+    if (trace.outcome !== 'unknown') continue;
+    for (const check of trace.checks) {
+      if (check.outcome !== 'unknown') continue;
+      for (const field of check.missing ?? [check.field]) {
+        fields.add(askedField(field));
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Profile field to ask about to learn a rule field
+ */
+function askedField(field: RuleField): AskableField {
+  if (field === 'qualifyingChildren') return 'dependents';   // Derived from the dependents list
+  return ASKED_AS[field] ?? field;
+}
+
+/**
+ * Offer the ZIP's counties as choices instead of free text
+ */
+function withLocalOptions(question: FollowUpQuestion, zipCode: string): FollowUpQuestion {
+  if (question.field !== 'county') return question;
+
+  const locations = lookupZipCode(zipCode);
+  if (locations.length === 0) return question;
+  return {
+    ...question,
+    answerType: 'choice',
+    options: locations.map(l => ({ value: l.countyFips, label: l.county })),
+  };
+}
+
+function labelFor(value: string): string {
+  return value
+    .split('-')
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
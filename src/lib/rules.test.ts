@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { EligibilityRule, VeteranProfile } from '../data/schema';
+import { criteriaToRule, evaluateRule } from './rules';
+
+const HONORABLE: EligibilityRule = { field: 'dischargeStatus', op: 'in', value: ['honorable'] };
+const RATED: EligibilityRule = { field: 'disabilityRating', op: 'gte', value: 30 };
+const SENIOR: EligibilityRule = { field: 'age', op: 'gte', value: 65 };
+
+function outcome(rule: EligibilityRule, profile: Partial<VeteranProfile>) {
+  return evaluateRule(rule, { zipCode: '78701', ...profile }).outcome;
+}
+
+describe('evaluateRule', () => {
+  it('compares a known field', () => {
+    expect(outcome(RATED, { disabilityRating: 30 })).toBe('met');
+    expect(outcome(RATED, { disabilityRating: 20 })).toBe('not-met');
+    expect(outcome(RATED, {})).toBe('unknown');
+  });
+
+  it('lets not-met beat unknown in all', () => {
+    const rule = { all: [HONORABLE, RATED] };
+
+    expect(outcome(rule, { dischargeStatus: 'general' })).toBe('not-met');
+    expect(outcome(rule, { dischargeStatus: 'honorable' })).toBe('unknown');
+    expect(outcome(rule, { dischargeStatus: 'honorable', disabilityRating: 50 })).toBe('met');
+  });
+
+  it('lets met beat unknown in any', () => {
+    const rule = { any: [RATED, SENIOR] };
+
+    expect(outcome(rule, { age: 70 })).toBe('met');
+    expect(outcome(rule, { age: 40 })).toBe('unknown');
+    expect(outcome(rule, { age: 40, disabilityRating: 10 })).toBe('not-met');
+  });
+
+  it('keeps not unknown unknown', () => {
+    const rule = { not: RATED };
+
+    expect(outcome(rule, {})).toBe('unknown');
+    expect(outcome(rule, { disabilityRating: 10 })).toBe('met');
+    expect(outcome(rule, { disabilityRating: 40 })).toBe('not-met');
+  });
+
+  it('evaluates every leaf, even after the outcome is decided', () => {
+    const result = evaluateRule({ all: [HONORABLE, RATED, SENIOR] }, { zipCode: '78701', dischargeStatus: 'general' });
+
+    expect(result.outcome).toBe('not-met');
+    expect(result.leaves.map(l => [l.field, l.outcome])).toEqual([
+      ['dischargeStatus', 'not-met'],
+      ['disabilityRating', 'unknown'],
+      ['age', 'unknown'],
+    ]);
+  });
+
+  it('names the missing field on each unknown leaf', () => {
+    const result = evaluateRule(
+      { any: [{ not: RATED }, { all: [HONORABLE, SENIOR] }] },
+      { zipCode: '78701', dischargeStatus: 'honorable' }
+    );
+
+    expect(result.outcome).toBe('unknown');
+    expect(result.leaves.map(l => l.missing)).toEqual([['disabilityRating'], undefined, ['age']]);
+  });
+
+  it('names the fields a table-based limit still needs', () => {
+    const result = evaluateRule(
+      { field: 'householdIncome', op: 'lte', threshold: { table: 'hhs-poverty-guideline' } },
+      { zipCode: '78701', householdIncome: 20_000 },
+      { asOf: new Date('2025-06-01') }
+    );
+
+    expect(result.outcome).toBe('unknown');
+    expect(result.leaves[0].missing).toEqual(['householdSize']);
+  });
+});
+
+describe('criteriaToRule', () => {
+  it('ANDs shorthand keys with the rule', () => {
+    expect(criteriaToRule({ minServiceDays: 90, rule: SENIOR })).toEqual({
+      all: [{ field: 'serviceDays', op: 'gte', value: 90 }, SENIOR],
+    });
+  });
+
+  it('returns null when there is nothing to check', () => {
+    expect(criteriaToRule(undefined)).toBeNull();
+    expect(criteriaToRule({})).toBeNull();
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Eligibility rule evaluation
+ *
+ * Rules are evaluated with three-valued logic: a comparison against a
+ * profile field we don't know yet is 'unknown', not 'not-met'. Groups
+ * combine outcomes the usual way (Kleene logic):
+ *   all: any not-met -> not-met, else any unknown -> unknown, else met
+ *   any: any met -> met, else any unknown -> unknown, else not-met
+ *   not: swaps met and not-met, unknown stays unknown
+ *
+ * Every leaf is evaluated, even when the group's outcome is already
+ * decided, so callers can explain each individual check.
+ */
+
+import type {
+  EligibilityRequirement,
+  EligibilityRule,
+  RuleCheck,
+  RuleComparison,
+  RuleField,
+  RuleOutcome,
+  VeteranProfile,
+} from '../data/schema';
+import {
+  applicantAge,
+  applicantRelationship,
+  hasDependents,
+  isSurvivor,
+  qualifyingChildren,
+} from './family';
+import { resolveIncomeLimit } from './income';
+import { profileServiceDays, profileServiceEras } from './service';
+
+export interface RuleResult {
+  outcome: RuleOutcome;
+  leaves: RuleCheck[];
+}
+
+export interface RuleContext {
+  asOf?: Date;                   // Date to evaluate dated limits at (default now)
+}
+
+/**
+ * Evaluate a rule against a profile
+ */
+export function evaluateRule(
+  rule: EligibilityRule,
+  profile: VeteranProfile,
+  context: RuleContext = {}
+): RuleResult {
+  if ('all' in rule) {
+    const results = rule.all.map(r => evaluateRule(r, profile, context));
+    return { outcome: combineAll(results), leaves: results.flatMap(r => r.leaves) };
+  }
+
+  if ('any' in rule) {
+    const results = rule.any.map(r => evaluateRule(r, profile, context));
+    return { outcome: combineAny(results), leaves: results.flatMap(r => r.leaves) };
+  }
+
+  if ('not' in rule) {
+    const result = evaluateRule(rule.not, profile, context);
+    return { outcome: negate(result.outcome), leaves: result.leaves };
+  }
+
+  const check = evaluateComparison(rule, profile, context);
+  return { outcome: check.outcome, leaves: [check] };
+}
+
+/**
+ * Evaluate a single comparison, resolving table-based limits first
+ */
+function evaluateComparison(
+  rule: RuleComparison,
+  profile: VeteranProfile,
+  context: RuleContext
+): RuleCheck {
+  const actual = getRuleFieldValue(profile, rule.field, rule.era, context.asOf);
+  const check: RuleCheck = {
+    field: rule.field,
+    op: rule.op,
+    expected: rule.value,
+    ...(rule.era ? { era: rule.era } : {}),
+    ...(rule.threshold ? { threshold: rule.threshold } : {}),
+    actual,
+    outcome: 'unknown',
+  };
+
+  const missing: RuleField[] = actual === undefined || actual === null ? [rule.field] : [];
+
+  if (rule.threshold) {
+    const limit = resolveIncomeLimit(rule.threshold, profile, context.asOf);
+    if (limit.amount === undefined) {
+      missing.push(...limit.missing);
+      return { ...check, missing };
+    }
+    check.expected = limit.amount;
+  }
+
+  check.outcome = compare({ ...rule, value: check.expected }, actual);
+  return check.outcome === 'unknown' ? { ...check, missing } : check;
+}
+
+/**
+ * Turn a requirement's criteria into a single rule.
+ * Returns null if the requirement has nothing we can check automatically.
+ */
+export function criteriaToRule(
+  criteria: EligibilityRequirement['criteria']
+): EligibilityRule | null {
+  if (!criteria) return null;
+
+  const rules: EligibilityRule[] = [];
+
+  if (criteria.minServiceDays !== undefined) {
+    rules.push({ field: 'serviceDays', op: 'gte', value: criteria.minServiceDays });
+  }
+  if (criteria.dischargeTypes !== undefined) {
+    rules.push({ field: 'dischargeStatus', op: 'in', value: criteria.dischargeTypes });
+  }
+  if (criteria.minDisabilityRating !== undefined) {
+    rules.push({ field: 'disabilityRating', op: 'gte', value: criteria.minDisabilityRating });
+  }
+  if (criteria.maxIncome !== undefined) {
+    rules.push({ field: 'householdIncome', op: 'lte', value: criteria.maxIncome });
+  }
+  if (criteria.incomeLimit !== undefined) {
+    rules.push({ field: 'householdIncome', op: 'lte', threshold: criteria.incomeLimit });
+  }
+  if (criteria.minAge !== undefined) {
+    rules.push({ field: 'age', op: 'gte', value: criteria.minAge });
+  }
+  if (criteria.maxAge !== undefined) {
+    rules.push({ field: 'age', op: 'lte', value: criteria.maxAge });
+  }
+  if (criteria.requiresSpouse) {
+    rules.push({ field: 'hasSpouse', op: 'eq', value: true });
+  }
+  if (criteria.relationships !== undefined) {
+    rules.push({ field: 'applicantRelationship', op: 'in', value: criteria.relationships });
+  }
+  if (criteria.maxApplicantAge !== undefined) {
+    rules.push({ field: 'applicantAge', op: 'lte', value: criteria.maxApplicantAge });
+  }
+  if (criteria.rule) {
+    rules.push(criteria.rule);
+  }
+
+  if (rules.length === 0) return null;
+  return rules.length === 1 ? rules[0] : { all: rules };
+}
+
+/**
+ * Read a field (or derived value) from a profile. Service days and eras
+ * are counted up to `asOf` (default now).
+ */
+export function getRuleFieldValue(
+  profile: VeteranProfile,
+  field: RuleField,
+  era?: string,
+  asOf?: Date
+): unknown {
+  switch (field) {
+    case 'serviceDays':
+      return profileServiceDays(profile, era, asOf);
+    case 'serviceEras':
+      return profileServiceEras(profile, asOf);
+    case 'applicantRelationship':
+      return applicantRelationship(profile);
+    case 'applicantAge':
+      return applicantAge(profile);
+    case 'isSurvivor':
+      return isSurvivor(profile);
+    case 'hasDependents':
+      return hasDependents(profile);
+    case 'qualifyingChildren':
+      return qualifyingChildren(profile);
+    default:
+      return profile[field];
+  }
+}
+
+function compare(rule: RuleComparison, actual: unknown): RuleOutcome {
+  if (rule.op === 'exists') {
+    return actual !== undefined && actual !== null ? 'met' : 'not-met';
+  }
+  if (actual === undefined || actual === null) return 'unknown';
+
+  const { value } = rule;
+  let met: boolean;
+
+  switch (rule.op) {
+    case 'eq':
+      met = actual === value;
+      break;
+    case 'neq':
+      met = actual !== value;
+      break;
+    case 'gt':
+      met = typeof actual === 'number' && typeof value === 'number' && actual > value;
+      break;
+    case 'gte':
+      met = typeof actual === 'number' && typeof value === 'number' && actual >= value;
+      break;
+    case 'lt':
+      met = typeof actual === 'number' && typeof value === 'number' && actual < value;
+      break;
+    case 'lte':
+      met = typeof actual === 'number' && typeof value === 'number' && actual <= value;
+      break;
+    case 'in':
+      met = Array.isArray(value) && value.includes(actual as string);
+      break;
+    case 'notIn':
+      met = Array.isArray(value) && !value.includes(actual as string);
+      break;
+    case 'contains':
+      met = Array.isArray(actual) && actual.includes(value);
+      break;
+  }
+
+  return met ? 'met' : 'not-met';
+}
+
+function combineAll(results: RuleResult[]): RuleOutcome {
+  if (results.some(r => r.outcome === 'not-met')) return 'not-met';
+  if (results.some(r => r.outcome === 'unknown')) return 'unknown';
+  return 'met';
+}
+
+function combineAny(results: RuleResult[]): RuleOutcome {
+  if (results.some(r => r.outcome === 'met')) return 'met';
+  if (results.some(r => r.outcome === 'unknown')) return 'unknown';
+  return 'not-met';
+}
+
+function negate(outcome: RuleOutcome): RuleOutcome {
+  if (outcome === 'met') return 'not-met';
+  if (outcome === 'not-met') return 'met';
+  return 'unknown';
+}
@@ -0,0 +1,145 @@
+/**
+ * Match scoring
+ *
+ * Turns a benefit's requirement traces into a score, a status and a
+ * confidence. The score says how much of the benefit's (weighted)
+ * requirements the veteran is known to meet; confidence says how much
+ * of it we could check at all, so "possible, 40% checked" and
+ * "possible, everything checked" can be told apart.
+ *
+ * Strategies are swappable through MatchOptions.scoring.
+ */
+
+import type {
+  Benefit,
+  BenefitMatch,
+  EligibilityRequirement,
+  EligibilityStatus,
+  RequirementTrace,
+  VeteranProfile,
+} from '../data/schema';
+import { criteriaToRule } from './rules';
+
+export interface MatchScore {
+  matchScore: number;            // 0-100
+  eligibilityStatus: EligibilityStatus;
+  confidence: number;            // 0-1
+}
+
+export interface ScoringStrategy {
+  score(traces: RequirementTrace[], benefit: Benefit, profile: VeteranProfile): MatchScore;
+}
+
+export interface WeightedScoringConfig {
+  likelyAt: number;              // Minimum score for 'likely'
+  possibleAt: number;            // Minimum score for 'possible'
+  noRequirementsScore: number;   // Score for benefits that list no requirements
+  defaultWeight: number;         // Weight of requirements with structured criteria
+  unstructuredWeight: number;    // Weight of free-text requirements we can never check
+  hardByDefault: boolean;        // Treat requirements without `hard` as hard
+}
+
+export const DEFAULT_SCORING_CONFIG: WeightedScoringConfig = {
+  likelyAt: 80,
+  possibleAt: 50,
+  noRequirementsScore: 50,
+  defaultWeight: 1,
+  unstructuredWeight: 0.5,
+  hardByDefault: false,
+};
+
+/**
+ * Weighted scoring: score = met weight / total weight.
+ *
+ * - A failed hard requirement makes the match 'unlikely' whatever the score.
+ * - Nothing checkable known yet: 'unknown'.
+ * - No failures: at least 'possible', since what's left is only unanswered.
+ */
+export function createWeightedScoring(
+  config: Partial<WeightedScoringConfig> = {}
+): ScoringStrategy {
+  const settings = { ...DEFAULT_SCORING_CONFIG, ...config };
+
+  return {
+    score(traces) {
+      if (traces.length === 0) {
+        return {
+          matchScore: settings.noRequirementsScore,
+          eligibilityStatus: 'unknown',
+          confidence: 0,
+        };
+      }
+
+      let total = 0;
+      let met = 0;
+      let evaluated = 0;
+      let failed = false;
+      let hardFailed = false;
+
+      for (const trace of traces) {
+        const weight = requirementWeight(trace.requirement, settings);
+        total += weight;
+        if (trace.outcome === 'unknown') continue;
+
+        evaluated += weight;
+        if (trace.outcome === 'met') {
+          met += weight;
+        } else {
+          failed = true;
+          if (trace.requirement.hard ?? settings.hardByDefault) hardFailed = true;
+        }
+      }
+
+      const matchScore = total > 0 ? Math.round((met / total) * 100) : 0;
+      const confidence = total > 0 ? Math.round((evaluated / total) * 100) / 100 : 0;
+
+      let eligibilityStatus: EligibilityStatus;
+      if (hardFailed) {
+        eligibilityStatus = 'unlikely';
+      } else if (evaluated === 0) {
+        eligibilityStatus = 'unknown';
+      } else if (matchScore >= settings.likelyAt) {
+        eligibilityStatus = 'likely';
+      } else if (matchScore >= settings.possibleAt || !failed) {
+        eligibilityStatus = 'possible';
+      } else {
+        eligibilityStatus = 'unlikely';
+      }
+
+      return { matchScore, eligibilityStatus, confidence };
+    },
+  };
+}
+
+export const defaultScoring: ScoringStrategy = createWeightedScoring();
+
+/**
+ * Estimated yearly value of a benefit for a profile, if the benefit
+ * has an estimate. Rating-based amounts use the profile's rating,
+ * rounded to the nearest 10 the way VA rounds combined ratings.
+ */
+export function estimateAnnualValue(benefit: Benefit, profile: VeteranProfile): number | undefined {
+  const value = benefit.value;
+  if (!value) return undefined;
+
+  if (value.annualByDisabilityRating && profile.disabilityRating !== undefined) {
+    const rating = Math.round(profile.disabilityRating / 10) * 10;
+    const amount = value.annualByDisabilityRating[String(rating)];
+    if (amount !== undefined) return amount;
+  }
+  return value.annual;
+}
+
+/**
+ * Value weighted by how likely the veteran is to get it, for ranking by
+ * impact. Ruled-out matches are worth nothing.
+ */
+export function expectedValue(match: BenefitMatch): number {
+  if (match.estimatedAnnualValue === undefined || match.eligibilityStatus === 'unlikely') return 0;
+  return (match.estimatedAnnualValue * match.matchScore) / 100;
+}
+
+function requirementWeight(req: EligibilityRequirement, settings: WeightedScoringConfig): number {
+  if (req.weight !== undefined) return req.weight;
+  return criteriaToRule(req.criteria) ? settings.defaultWeight : settings.unstructuredWeight;
+}
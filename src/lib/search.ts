@@ -0,0 +1,360 @@
+/**
+ * Benefit search
+ *
+ * Full-text search over the catalog with typo tolerance, synonyms for
+ * veteran jargon and facet filters. Text is split into lowercase tokens;
+ * each query token matches a document token exactly, as a prefix, or
+ * within a small edit distance, and scores are weighted by field (a hit
+ * in the name counts more than one deep in the description) and by how
+ * rare the token is across the catalog.
+ *
+ * Synonyms are phrase groups ("gi bill", "chapter 33"). A document
+ * containing any phrase from a group gets the group's concept token, and
+ * the same phrase in a query is searched as that concept, so searching
+ * either phrase finds benefits that use the other.
+ */
+
+import type { ActionType, Benefit, BenefitCategory, BenefitLevel } from '../data/schema';
+import { getDocumentType } from '../data/documents';
+import { actionSteps } from './action-plan';
+import { getBenefitsForLocation } from './lookup';
+
+export interface SearchFacets {
+  category?: BenefitCategory[];
+  level?: BenefitLevel[];
+  actionType?: ActionType[];
+  state?: string[];              // USPS codes; only benefits limited to these states
+}
+
+export interface SearchQuery {
+  text?: string;
+  zipCode?: string;              // Only benefits available at this ZIP
+  facets?: SearchFacets;
+  limit?: number;
+}
+
+export interface SearchHit {
+  benefit: Benefit;
+  score: number;
+  matchedTerms: string[];        // Query words or phrases that matched something
+}
+
+export type FacetCounts = {
+  [K in keyof SearchFacets]-?: Record<string, number>;
+};
+
+export interface SearchResults {
+  hits: SearchHit[];
+  total: number;                 // Before `limit`
+  facets: FacetCounts;           // Counts for each facet value, ignoring that facet's own filter
+}
+
+export interface BenefitSearchIndex {
+  search(query: SearchQuery): SearchResults;
+}
+
+// Field weights for scoring
+const FIELD_WEIGHTS = {
+  name: 4,
+  tags: 3,
+  summary: 2,
+  formNumber: 2,
+  description: 1,
+  steps: 1,
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+export const SYNONYM_GROUPS: string[][] = [
+  ['gi bill', 'chapter 33', 'ch 33', 'post 911'],
+  ['voc rehab', 'vocational rehabilitation', 'vr&e', 'chapter 31', 'ch 31', 'veteran readiness and employment'],
+  ['dd214', 'dd 214', 'discharge papers', 'separation papers', 'certificate of release or discharge'],
+  ['tdiu', 'individual unemployability', 'unemployability'],
+  ['sah', 'specially adapted housing', 'sha', 'special housing adaptation'],
+  ['c&p exam', 'compensation and pension exam'],
+  ['vso', 'veterans service organization'],
+  ['ptsd', 'post traumatic stress'],
+  ['property tax', 'homestead exemption', 'tax exemption'],
+  ['home loan', 'va loan', 'mortgage'],
+  ['coe', 'certificate of eligibility'],
+  ['children', 'child', 'kids', 'dependent children'],
+];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'i', 'if',
+  'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'to', 'was', 'with', 'you', 'your',
+]);
+
+interface IndexedBenefit {
+  benefit: Benefit;
+  fields: Record<Field, Set<string>>;
+}
+
+interface Synonym {
+  concept: string;               // Token added for the group, e.g. "~syn0"
+  phrases: string[][];
+}
+
+interface QueryTerm {
+  token: string;                 // Word, or a synonym concept
+  label: string;                 // What the user typed
+}
+
+/**
+ * Build a search index over a list of benefits
+ */
+export function createSearchIndex(benefits: readonly Benefit[]): BenefitSearchIndex {
+  const synonyms: Synonym[] = SYNONYM_GROUPS.map((group, i) => ({
+    concept: `~syn${i}`,
+    phrases: group.map(phrase => tokenize(phrase, false)),
+  }));
+
+  const indexed: IndexedBenefit[] = benefits.map(benefit => ({
+    benefit,
+    fields: {
+      name: analyze(benefit.name, synonyms),
+      tags: analyze(benefit.tags.join(' | '), synonyms),
+      summary: analyze(benefit.summary, synonyms),
+      formNumber: analyze(formNumbers(benefit).join(' | '), synonyms),
+      description: analyze(benefit.description, synonyms),
+      steps: analyze(stepText(benefit), synonyms),
+    },
+  }));
+
+  // Documents containing each token, for rarity weighting
+  const documentFrequency = new Map<string, number>();
+  for (const doc of indexed) {
+    const tokens = new Set(Object.values(doc.fields).flatMap(set => [...set]));
+    for (const token of tokens) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+  const vocabulary = [...documentFrequency.keys()];
+  const position = new Map(benefits.map((benefit, i) => [benefit.id, i]));
+
+  const idf = (token: string) =>
+    Math.log(1 + indexed.length / (documentFrequency.get(token) ?? indexed.length));
+
+  return {
+    search(query) {
+      const allowed = query.zipCode
+        ? new Set(getBenefitsForLocation(query.zipCode, [...benefits]).map(b => b.id))
+        : null;
+      const terms = queryTerms(query.text ?? '', synonyms);
+      const expansions = new Map(terms.map(term => [term.token, expand(term.token, vocabulary)]));
+
+      const scored: SearchHit[] = [];
+      for (const doc of indexed) {
+        if (allowed && !allowed.has(doc.benefit.id)) continue;
+        if (!terms.length) {
+          scored.push({ benefit: doc.benefit, score: 0, matchedTerms: [] });
+          continue;
+        }
+
+        let score = 0;
+        const matchedTerms: string[] = [];
+        for (const term of terms) {
+          let best = 0;
+          for (const [token, closeness] of expansions.get(term.token)!) {
+            for (const field of Object.keys(FIELD_WEIGHTS) as Field[]) {
+              if (doc.fields[field].has(token)) {
+                best = Math.max(best, closeness * FIELD_WEIGHTS[field] * idf(token));
+              }
+            }
+          }
+          if (best > 0) {
+            score += best;
+            matchedTerms.push(term.label);
+          }
+        }
+
+        if (score > 0) {
+          // Favor benefits that match more of the query
+          const coverage = matchedTerms.length / terms.length;
+          scored.push({
+            benefit: doc.benefit,
+            score: Math.round(score * coverage * 100) / 100,
+            matchedTerms,
+          });
+        }
+      }
+
+      const facets = query.facets ?? {};
+      const hits = scored
+        .filter(hit => passesFacets(hit.benefit, facets))
+        .sort((a, b) =>
+          b.score - a.score || position.get(a.benefit.id)! - position.get(b.benefit.id)!
+        );
+
+      return {
+        hits: query.limit !== undefined ? hits.slice(0, query.limit) : hits,
+        total: hits.length,
+        facets: countFacets(scored.map(hit => hit.benefit), facets),
+      };
+    },
+  };
+}
+
+/**
+ * Lowercase word tokens, accents removed. "9/11" becomes "911", "VR&E"
+ * stays "vr&e" and "DD-214" becomes "dd 214" (which the synonym table
+ * ties to "dd214").
+ */
+export function tokenize(text: string, dropStopWords = true): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/(\d)\/(\d)/g, '$1$2')
+    .split(/[^a-z0-9&]+/)
+    .map(token => token.replace(/^&+|&+$/g, ''))
+    .filter(token => token && !(dropStopWords && STOP_WORDS.has(token)));
+}
+
+/**
+ * Tokens plus concept tokens for any synonym phrases in the text
+ */
+function analyze(text: string, synonyms: Synonym[]): Set<string> {
+  const all = tokenize(text, false);
+  const tokens = new Set(all.filter(token => !STOP_WORDS.has(token)));
+
+  for (const { concept, phrases } of synonyms) {
+    if (phrases.some(phrase => containsPhrase(all, phrase))) tokens.add(concept);
+  }
+  return tokens;
+}
+
+/**
+ * Query words, with synonym phrases replaced by their concept so
+ * "chapter 33" is one term rather than "chapter" and "33"
+ */
+function queryTerms(text: string, synonyms: Synonym[]): QueryTerm[] {
+  const tokens = tokenize(text, false);
+  const terms: QueryTerm[] = [];
+
+  for (let i = 0; i < tokens.length;) {
+    const hit = synonyms
+      .flatMap(({ concept, phrases }) => phrases.map(phrase => ({ concept, phrase })))
+      .filter(({ phrase }) => phraseAt(tokens, i, phrase))
+      .sort((a, b) => b.phrase.length - a.phrase.length)[0];
+
+    if (hit) {
+      terms.push({ token: hit.concept, label: hit.phrase.join(' ') });
+      i += hit.phrase.length;
+    } else {
+      if (!STOP_WORDS.has(tokens[i])) terms.push({ token: tokens[i], label: tokens[i] });
+      i++;
+    }
+  }
+
+  return terms.filter((term, i) => terms.findIndex(t => t.token === term.token) === i);
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phraseAt(tokens, i, phrase)) return true;
+  }
+  return false;
+}
+
+function phraseAt(tokens: string[], start: number, phrase: string[]): boolean {
+  return start + phrase.length <= tokens.length &&
+    phrase.every((word, j) => tokens[start + j] === word);
+}
+
+/**
+ * Vocabulary tokens a query term can match, with how close each is
+ * (1 exact, 0.8 prefix, less for typos)
+ */
+function expand(term: string, vocabulary: string[]): Map<string, number> {
+  const matches = new Map<string, number>([[term, 1]]);
+  if (term.startsWith('~')) return matches;
+
+  const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  for (const token of vocabulary) {
+    if (token === term || token.startsWith('~')) continue;
+    if (term.length >= 3 && token.startsWith(term)) {
+      matches.set(token, 0.8);
+    } else if (maxEdits && Math.abs(token.length - term.length) <= maxEdits) {
+      const edits = editDistance(term, token, maxEdits);
+      if (edits <= maxEdits) matches.set(token, 0.7 - 0.2 * (edits - 1));
+    }
+  }
+  return matches;
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, giving up
+ * once it's past `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, d[i][j]);
+    }
+    if (rowMin > max) return rowMin;
+  }
+  return d[a.length][b.length];
+}
+
+function formNumbers(benefit: Benefit): string[] {
+  return [
+    benefit.action.formNumber ?? '',
+    ...actionSteps(benefit.action).map(step => step.form ?? ''),
+  ];
+}
+
+/**
+ * Step text plus the names of the documents to bring, so "DD214" finds
+ * every benefit that asks for one
+ */
+function stepText(benefit: Benefit): string {
+  return [
+    ...actionSteps(benefit.action).map(step => step.text),
+    ...(benefit.action.documents ?? []).map(id => getDocumentType(id)?.name ?? id),
+  ].join('\n');
+}
+
+function facetValues(benefit: Benefit): { [K in keyof SearchFacets]-?: string[] } {
+  return {
+    category: [benefit.category],
+    level: [benefit.level],
+    actionType: [benefit.action.type],
+    state: benefit.coverage.states ?? [],
+  };
+}
+
+function passesFacets(benefit: Benefit, facets: SearchFacets, skip?: keyof SearchFacets): boolean {
+  const values = facetValues(benefit);
+  return (Object.keys(facets) as (keyof SearchFacets)[]).every(facet => {
+    const selected = facets[facet] as string[] | undefined;
+    if (facet === skip || !selected?.length) return true;
+    return values[facet].some(value => selected.includes(value));
+  });
+}
+
+function countFacets(benefits: Benefit[], facets: SearchFacets): FacetCounts {
+  const counts: FacetCounts = { category: {}, level: {}, actionType: {}, state: {} };
+
+  for (const facet of Object.keys(counts) as (keyof SearchFacets)[]) {
+    for (const benefit of benefits) {
+      if (!passesFacets(benefit, facets, facet)) continue;
+      for (const value of facetValues(benefit)[facet]) {
+        counts[facet][value] = (counts[facet][value] ?? 0) + 1;
+      }
+    }
+  }
+  return counts;
+}
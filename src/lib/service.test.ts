@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { ServicePeriod } from '../data/schema';
+import { activeDutyDays, erasForPeriods, profileServiceDays } from './service';
+
+function active(entryDate: string, separationDate?: string | null): ServicePeriod {
+  return { entryDate, separationDate, dutyType: 'active' };
+}
+
+describe('activeDutyDays', () => {
+  it('counts the first and last day', () => {
+    expect(activeDutyDays([active('2020-01-01', '2020-01-01')])).toBe(1);
+    expect(activeDutyDays([active('2020-01-01', '2020-06-28')])).toBe(180);
+    expect(activeDutyDays([active('2020-01-01', '2020-06-29')])).toBe(181);
+  });
+
+  it('counts overlapping periods once', () => {
+    const periods = [active('2020-01-05', '2020-01-20'), active('2020-01-01', '2020-01-10')];
+
+    expect(activeDutyDays(periods)).toBe(20);
+    expect(activeDutyDays([...periods, active('2020-01-21', '2020-01-21')])).toBe(21);
+  });
+
+  it('splits a period across the eras it spans', () => {
+    const periods = [active('2001-09-01', '2001-09-30')];
+
+    expect(activeDutyDays(periods)).toBe(30);
+    expect(activeDutyDays(periods, { eraId: 'gulf' })).toBe(10);
+    expect(activeDutyDays(periods, { eraId: 'post-911' })).toBe(20);
+    expect(activeDutyDays(periods, { eraId: 'vietnam' })).toBe(0);
+    expect(erasForPeriods(periods)).toEqual(['gulf', 'post-911']);
+  });
+
+  it('counts an open-ended period up to asOf', () => {
+    const asOf = new Date('2025-01-31T15:00:00Z');
+
+    expect(activeDutyDays([active('2025-01-01')], { asOf })).toBe(31);
+    expect(activeDutyDays([active('2025-01-01', null)], { eraId: 'post-911', asOf })).toBe(31);
+  });
+
+  it('leaves out training duty', () => {
+    const periods: ServicePeriod[] = [
+      active('2020-01-01', '2020-01-10'),
+      { entryDate: '2020-02-01', separationDate: '2020-02-14', dutyType: 'active-training' },
+      { entryDate: '2020-03-01', separationDate: '2020-03-02', dutyType: 'inactive-training' },
+    ];
+
+    expect(activeDutyDays(periods)).toBe(10);
+  });
+
+  it('throws for an unknown era', () => {
+    expect(() => activeDutyDays([active('2020-01-01', '2020-01-10')], { eraId: 'crimea' })).toThrow();
+  });
+});
+
+describe('profileServiceDays', () => {
+  it('prefers periods, then days, then years', () => {
+    const periods = [active('2020-01-01', '2020-06-29')];
+
+    expect(profileServiceDays({ zipCode: '78701', servicePeriods: periods, serviceDays: 10 })).toBe(181);
+    expect(profileServiceDays({ zipCode: '78701', serviceDays: 10, yearsOfService: 4 })).toBe(10);
+    expect(profileServiceDays({ zipCode: '78701', yearsOfService: 4 })).toBe(1461);
+  });
+
+  it("doesn't guess era days without periods", () => {
+    expect(profileServiceDays({ zipCode: '78701', serviceDays: 400 }, 'gulf')).toBeUndefined();
+    expect(profileServiceDays({ zipCode: '78701', servicePeriods: [active('2020-01-01', '2020-01-10')] }, 'crimea'))
+      .toBeUndefined();
+  });
+});
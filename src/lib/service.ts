@@ -0,0 +1,101 @@
+/**
+ * Service period calculations
+ *
+ * Exact day counts from entry/separation dates, so thresholds like
+ * Hazlewood's 181 days or the GI Bill's 90 days are checked to the day.
+ * Only active duty counts toward active-duty days; training duty
+ * periods are kept on the profile but excluded here.
+ */
+
+import type { ServicePeriod, VeteranProfile } from '../data/schema';
+import { getServiceEra, SERVICE_ERAS } from '../data/service-eras';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Active-duty days across all periods, counting both the first and last
+ * day. With `eraId`, only days inside that era count. Overlapping
+ * periods are only counted once.
+ */
+export function activeDutyDays(
+  periods: ServicePeriod[],
+  options: { eraId?: string; asOf?: Date } = {}
+): number {
+  const today = toDay(options.asOf ?? new Date());
+  const era = options.eraId ? getServiceEra(options.eraId) : undefined;
+  if (options.eraId && !era) {
+    throw new Error(`Unknown service era: ${options.eraId}`);
+  }
+
+  const ranges = periods
+    .filter(p => p.dutyType === 'active')
+    .map(p => {
+      let start = parseDay(p.entryDate);
+      let end = p.separationDate ? parseDay(p.separationDate) : today;
+      if (era) {
+        start = Math.max(start, parseDay(era.start));
+        end = Math.min(end, era.end ? parseDay(era.end) : today);
+      }
+      return [start, end] as const;
+    })
+    .filter(([start, end]) => !isNaN(start) && !isNaN(end) && end >= start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let days = 0;
+  let coveredUntil = -Infinity;
+  for (const [start, end] of ranges) {
+    const from = Math.max(start, coveredUntil + MS_PER_DAY);
+    if (end >= from) {
+      days += Math.round((end - from) / MS_PER_DAY) + 1;
+    }
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+  return days;
+}
+
+/**
+ * Ids of the eras any active-duty period overlaps
+ */
+export function erasForPeriods(periods: ServicePeriod[], asOf: Date = new Date()): string[] {
+  return SERVICE_ERAS
+    .filter(era => activeDutyDays(periods, { eraId: era.id, asOf }) > 0)
+    .map(era => era.id);
+}
+
+/**
+ * Best available active-duty day count for a profile:
+ * exact periods, then a given day count, then a yearsOfService estimate.
+ * Era-specific counts need periods; without them, or for an era we
+ * don't know, the answer is unknown.
+ */
+export function profileServiceDays(
+  profile: VeteranProfile,
+  eraId?: string,
+  asOf?: Date
+): number | undefined {
+  if (eraId && !getServiceEra(eraId)) return undefined;
+  if (profile.servicePeriods?.length) {
+    return activeDutyDays(profile.servicePeriods, { eraId, asOf });
+  }
+  if (eraId) return undefined;
+  if (profile.serviceDays !== undefined) return profile.serviceDays;
+  return profile.yearsOfService !== undefined
+    ? Math.floor(profile.yearsOfService * 365.25)
+    : undefined;
+}
+
+/**
+ * Service eras for a profile, derived from periods when given
+ */
+export function profileServiceEras(profile: VeteranProfile, asOf?: Date): string[] | undefined {
+  if (profile.servicePeriods?.length) return erasForPeriods(profile.servicePeriods, asOf);
+  return profile.serviceEras;
+}
+
+function parseDay(iso: string): number {
+  return Date.parse(`${iso}T00:00:00Z`);
+}
+
+function toDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
@@ -0,0 +1,99 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { allBenefits } from '../../data/benefits';
+import { benefitsForUrl, checkIncomingPages, normalizeSourceUrl } from './check';
+import { FileReviewQueue } from './store';
+
+const FIXTURES = join(process.cwd(), 'fixtures/source-pages');
+const TDIU_URL = 'https://www.va.gov/disability/eligibility/special-claims/unemployability';
+const HAZLEWOOD_URL = 'https://www.tvc.texas.gov/education/hazlewood-act';
+
+let storeDir: string;
+
+beforeEach(async () => {
+  storeDir = await mkdtemp(join(tmpdir(), 'source-watch-'));
+});
+
+afterEach(async () => {
+  await rm(storeDir, { recursive: true, force: true });
+});
+
+function check(capture: string, now = new Date('2025-06-02T00:00:00Z')) {
+  return checkIncomingPages(join(FIXTURES, capture), allBenefits, storeDir, now);
+}
+
+describe('checkIncomingPages', () => {
+  it('keeps the first capture of each page as its baseline', async () => {
+    const results = await check('2025-01');
+
+    expect(results.map(r => [r.url, r.status])).toEqual([
+      [TDIU_URL, 'baseline'],
+      [HAZLEWOOD_URL, 'baseline'],
+    ]);
+    expect(await new FileReviewQueue(storeDir).list()).toEqual([]);
+  });
+
+  it('opens a review item for a changed page, naming the benefits that cite it', async () => {
+    await check('2025-01');
+    const results = await check('2025-06');
+
+    const tdiu = results.find(r => r.url === TDIU_URL)!;
+    expect(tdiu.status).toBe('changed');
+    expect(tdiu.benefitIds).toEqual(['va-tdiu']);
+    expect(tdiu.review).toMatchObject({
+      url: TDIU_URL,
+      benefitIds: ['va-tdiu'],
+      detectedAt: '2025-06-02T00:00:00.000Z',
+      previous: { capturedAt: '2025-01-01T12:00:00Z' },
+      current: { capturedAt: '2025-06-01T12:00:00Z' },
+      removed: ['Fill out VA Form 21-8940 and VA Form 21-4192.'],
+      status: 'open',
+    });
+    expect(tdiu.review!.id).toMatch(/^2025-06-02-[0-9a-f]{12}$/);
+
+    const open = await new FileReviewQueue(storeDir).list('open');
+    expect(open.map(item => item.id)).toEqual([tdiu.review!.id]);
+  });
+
+  it("doesn't open a review item when only navigation changed", async () => {
+    await check('2025-01');
+    const results = await check('2025-06');
+
+    const hazlewood = results.find(r => r.url === HAZLEWOOD_URL)!;
+    expect(hazlewood.status).toBe('unchanged');
+    expect(hazlewood.benefitIds).toEqual(['tx-hazlewood', 'tx-hazlewood-legacy']);
+    expect(hazlewood.review).toBeUndefined();
+  });
+
+  it('ignores captures older than the stored snapshot', async () => {
+    await check('2025-06');
+    const results = await check('2025-01');
+
+    expect(results.map(r => r.status)).toEqual(['outdated', 'outdated']);
+    expect(await new FileReviewQueue(storeDir).list()).toEqual([]);
+  });
+
+  it('resolves review items', async () => {
+    await check('2025-01');
+    const [tdiu] = await check('2025-06');
+    const queue = new FileReviewQueue(storeDir);
+
+    await queue.resolve(tdiu.review!.id, 'updated va-tdiu steps', new Date('2025-06-03T00:00:00Z'));
+
+    expect(await queue.list('open')).toEqual([]);
+    expect(await queue.get(tdiu.review!.id)).toMatchObject({
+      status: 'resolved',
+      resolvedAt: '2025-06-03T00:00:00.000Z',
+      resolution: 'updated va-tdiu steps',
+    });
+  });
+});
+
+describe('source URLs', () => {
+  it('match regardless of host case, fragment and trailing slash', () => {
+    expect(normalizeSourceUrl('https://www.VA.gov/disability/#apply')).toBe('https://www.va.gov/disability');
+    expect(benefitsForUrl(`${TDIU_URL}/#how-to-apply`, allBenefits)).toEqual(['va-tdiu']);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Source page change detection
+ *
+ * Pages are fetched elsewhere (a scheduled job, or by hand) and dropped
+ * into a directory with a `pages.json` manifest:
+ *
+ *   { "pages": [{ "url": "https://www.va.gov/disability/",
+ *                 "file": "va-disability.html",
+ *                 "capturedAt": "2025-06-01T12:00:00Z" }] }
+ *
+ * Nothing here touches the network. The first snapshot of a page is
+ * kept as the baseline; after that, any change to its main text opens
+ * a review item naming the benefits that cite the page.
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { Benefit } from '../../data/schema';
+import { diffLines } from './diff';
+import { extractMainText } from './extract';
+import { FileReviewQueue, FileSnapshotStore, sha256, type ReviewItem } from './store';
+
+export interface IncomingPage {
+  url: string;
+  html: string;
+  capturedAt: string;            // ISO timestamp
+}
+
+export interface PageCheckResult {
+  url: string;
+  status: 'baseline' | 'unchanged' | 'changed' | 'outdated';
+  benefitIds: string[];
+  review?: ReviewItem;
+}
+
+interface PageManifest {
+  pages: { url: string; file: string; capturedAt?: string }[];
+}
+
+/**
+ * Compare one page against its stored snapshot, saving it and opening a
+ * review item when the text changed. Pages captured no later than the stored
+ * snapshot are reported as 'outdated' and ignored.
+ */
+export async function checkPage(
+  page: IncomingPage,
+  benefits: Benefit[],
+  store: FileSnapshotStore,
+  queue: FileReviewQueue,
+  now: Date = new Date()
+): Promise<PageCheckResult> {
+  const url = normalizeSourceUrl(page.url);
+  const benefitIds = benefitsForUrl(url, benefits);
+  const text = extractMainText(page.html);
+  const snapshot = { url, capturedAt: page.capturedAt, hash: sha256(text), text };
+
+  const previous = await store.latest(url);
+  if (!previous) {
+    await store.save(snapshot);
+    return { url, status: 'baseline', benefitIds };
+  }
+  if (page.capturedAt <= previous.capturedAt) {
+    return { url, status: 'outdated', benefitIds };
+  }
+
+  await store.save(snapshot);
+  if (previous.hash === snapshot.hash) {
+    return { url, status: 'unchanged', benefitIds };
+  }
+
+  const { added, removed } = diffLines(previous.text, text);
+  const review: ReviewItem = {
+    id: `${now.toISOString().slice(0, 10)}-${sha256(url + snapshot.hash).slice(0, 12)}`,
+    url,
+    benefitIds,
+    detectedAt: now.toISOString(),
+    previous: { capturedAt: previous.capturedAt, hash: previous.hash },
+    current: { capturedAt: snapshot.capturedAt, hash: snapshot.hash },
+    added,
+    removed,
+    status: 'open',
+  };
+  await queue.add(review);
+
+  return { url, status: 'changed', benefitIds, review };
+}
+
+/**
+ * Check every page listed in a directory's pages.json
+ */
+export async function checkIncomingPages(
+  incomingDir: string,
+  benefits: Benefit[],
+  storeDir: string,
+  now: Date = new Date()
+): Promise<PageCheckResult[]> {
+  const store = new FileSnapshotStore(storeDir);
+  const queue = new FileReviewQueue(storeDir);
+  const results: PageCheckResult[] = [];
+
+  for (const page of await loadIncomingPages(incomingDir)) {
+    results.push(await checkPage(page, benefits, store, queue, now));
+  }
+  return results;
+}
+
+/**
+ * Read the manifest and HTML files from an incoming directory
+ */
+export async function loadIncomingPages(dir: string): Promise<IncomingPage[]> {
+  const manifest = JSON.parse(await readFile(join(dir, 'pages.json'), 'utf8')) as PageManifest;
+  if (!Array.isArray(manifest.pages)) {
+    throw new Error(`${join(dir, 'pages.json')}: expected a "pages" list`);
+  }
+
+  const pages: IncomingPage[] = [];
+  for (const entry of manifest.pages) {
+    if (!entry.url || !entry.file) {
+      throw new Error(`${join(dir, 'pages.json')}: every page needs "url" and "file"`);
+    }
+    pages.push({
+      url: entry.url,
+      html: await readFile(join(dir, entry.file), 'utf8'),
+      capturedAt: entry.capturedAt ?? new Date().toISOString(),
+    });
+  }
+  return pages;
+}
+
+/**
+ * Ids of benefits whose source or action URL is this page
+ */
+export function benefitsForUrl(url: string, benefits: Benefit[]): string[] {
+  const target = normalizeSourceUrl(url);
+  return benefits
+    .filter(benefit =>
+      [benefit.source.url, benefit.action.url]
+        .some(candidate => candidate && normalizeSourceUrl(candidate) === target)
+    )
+    .map(benefit => benefit.id);
+}
+
+/**
+ * Lowercase host, no fragment, no trailing slash, so
+ * "https://www.VA.gov/disability" and ".../disability/#apply" match
+ */
+export function normalizeSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return url.trim();
+  }
+}
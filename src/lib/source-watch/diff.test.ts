@@ -0,0 +1,68 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff';
+import { extractMainText } from './extract';
+
+const FIXTURES = join(process.cwd(), 'fixtures/source-pages');
+
+function fixtureText(capture: string, file: string): string {
+  return extractMainText(readFileSync(join(FIXTURES, capture, file), 'utf8'));
+}
+
+describe('diffLines', () => {
+  it('finds nothing between identical texts', () => {
+    expect(diffLines('a\nb\nc', 'a\nb\nc')).toEqual({ added: [], removed: [] });
+  });
+
+  it('reports a replaced line without the shared lines around it', () => {
+    expect(diffLines('a\nb\nc\nd', 'a\nB\nc\nd')).toEqual({ added: ['B'], removed: ['b'] });
+  });
+
+  it('reports insertions and deletions in the middle', () => {
+    expect(diffLines('a\nb\nc\nd\ne', 'a\nc\nx\nd\ne')).toEqual({ added: ['x'], removed: ['b'] });
+  });
+
+  it('treats an empty side as no lines', () => {
+    expect(diffLines('', 'a\nb')).toEqual({ added: ['a', 'b'], removed: [] });
+    expect(diffLines('a\nb', '')).toEqual({ added: [], removed: ['a', 'b'] });
+  });
+
+  it('isolates the changed sentence on the fixture TDIU page', () => {
+    const diff = diffLines(
+      fixtureText('2025-01', 'va-tdiu.html'),
+      fixtureText('2025-06', 'va-tdiu.html')
+    );
+
+    expect(diff.removed).toEqual(['Fill out VA Form 21-8940 and VA Form 21-4192.']);
+    expect(diff.added).toHaveLength(1);
+    expect(diff.added[0]).toMatch(/^Fill out VA Form 21-8940\. You no longer need to send VA Form 21-4192/);
+  });
+});
+
+describe('extractMainText', () => {
+  it('ignores navigation changes on the fixture Hazlewood page', () => {
+    const january = fixtureText('2025-01', 'tx-hazlewood.html');
+
+    expect(january).not.toContain('Home');
+    expect(january.split('\n')[0]).toBe('Hazlewood Act');
+    expect(fixtureText('2025-06', 'tx-hazlewood.html')).toBe(january);
+  });
+
+  it('drops scripts, chrome and volatile lines', () => {
+    const text = extractMainText(`
+      <html><body>
+        <header>Site header</header>
+        <main>
+          <h1>Title &amp; more</h1>
+          <script>track()</script>
+          <p>First   paragraph<br>second line</p>
+          <p>Last updated: June 1, 2025</p>
+        </main>
+        <footer>Footer</footer>
+      </body></html>
+    `);
+
+    expect(text).toBe('Title & more\nFirst paragraph\nsecond line');
+  });
+});
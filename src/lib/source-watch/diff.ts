@@ -0,0 +1,63 @@
+/**
+ * Line diff for extracted page text
+ *
+ * A plain longest-common-subsequence diff. Pages are a few hundred
+ * lines once reduced to main text, so the quadratic table is fine;
+ * the shared head and tail are trimmed first to keep it small.
+ */
+
+export interface TextDiff {
+  added: string[];
+  removed: string[];
+}
+
+export function diffLines(before: string, after: string): TextDiff {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) {
+    tail++;
+  }
+
+  const oldLines = a.slice(head, a.length - tail);
+  const newLines = b.slice(head, b.length - tail);
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lcs[i * (cols + 1) + j] = LCS length of oldLines[i:] and newLines[j:]
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * (cols + 1) + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1]);
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (cols + 1) + j] >= lcs[i * (cols + 1) + j + 1]) {
+      removed.push(oldLines[i++]);
+    } else {
+      added.push(newLines[j++]);
+    }
+  }
+  removed.push(...oldLines.slice(i));
+  added.push(...newLines.slice(j));
+
+  return { added, removed };
+}
@@ -0,0 +1,80 @@
+/**
+ * Main-text extraction for source pages
+ *
+ * Reduces an official page to the text a reviewer cares about: the
+ * <main> (or <article>, or <body>) content, minus scripts, navigation,
+ * headers and footers, one block per line. Lines that change on every
+ * publish without changing meaning ("Last updated: ...") are dropped,
+ * so they don't open review items on their own.
+ */
+
+const REMOVED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe'];
+const CHROME_ELEMENTS = ['nav', 'header', 'footer', 'aside', 'form'];
+const BLOCK_ELEMENTS = [
+  'p', 'div', 'section', 'article', 'li', 'ul', 'ol', 'dl', 'dt', 'dd',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'tr', 'table', 'blockquote', 'pre',
+];
+
+const VOLATILE_LINES = [
+  /^(page )?last (updated|reviewed|modified)\b/i,
+  /^back to top$/i,
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  hellip: '…', copy: '©', reg: '®',
+};
+
+/**
+ * Plain text of a page's main content, one block per line
+ */
+export function extractMainText(html: string): string {
+  let doc = html.replace(/<!--[\s\S]*?-->/g, '');
+  doc = removeElements(doc, REMOVED_ELEMENTS);
+
+  const main = innerHtml(doc, 'main') ?? innerHtml(doc, 'article') ?? innerHtml(doc, 'body') ?? doc;
+  const content = removeElements(main, CHROME_ELEMENTS);
+
+  const blocks = new RegExp(`</?(?:${BLOCK_ELEMENTS.join('|')})\\b[^>]*>|<br\\s*/?>`, 'gi');
+  const text = decodeEntities(
+    content
+      .replace(blocks, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  );
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line && !VOLATILE_LINES.some(pattern => pattern.test(line)))
+    .join('\n');
+}
+
+/**
+ * Content of the first <tag> element through its last closing tag
+ */
+function innerHtml(html: string, tag: string): string | undefined {
+  const open = new RegExp(`<${tag}\\b[^>]*>`, 'i').exec(html);
+  if (!open) return undefined;
+
+  const start = open.index + open[0].length;
+  const end = html.toLowerCase().lastIndexOf(`</${tag}>`);
+  return end > start ? html.slice(start, end) : html.slice(start);
+}
+
+function removeElements(html: string, tags: string[]): string {
+  const pattern = new RegExp(`<(${tags.join('|')})\\b[^>]*>[\\s\\S]*?</\\1\\s*>`, 'gi');
+  return html.replace(pattern, '\n');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X'
+        ? parseInt(body.slice(2), 16)
+        : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Snapshot and review item storage
+ *
+ * Plain JSON files under one directory:
+ *   snapshots/<sha256 of url>.json   latest extracted text per page
+ *   reviews/<review id>.json         one file per review item
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+export interface PageSnapshot {
+  url: string;
+  capturedAt: string;            // ISO timestamp the page was fetched
+  hash: string;                  // sha256 of `text`
+  text: string;                  // Extracted main text
+}
+
+export interface ReviewItem {
+  id: string;
+  url: string;
+  benefitIds: string[];          // Benefits citing this page as source or action URL
+  detectedAt: string;            // ISO timestamp
+  previous: { capturedAt: string; hash: string };
+  current: { capturedAt: string; hash: string };
+  added: string[];
+  removed: string[];
+  status: 'open' | 'resolved';
+  resolvedAt?: string;
+  resolution?: string;           // What the reviewer did, e.g. "updated va-disability rates"
+}
+
+export class FileSnapshotStore {
+  constructor(private readonly dir: string) {}
+
+  async latest(url: string): Promise<PageSnapshot | null> {
+    return readJson<PageSnapshot>(this.pathFor(url));
+  }
+
+  async save(snapshot: PageSnapshot): Promise<void> {
+    await mkdir(join(this.dir, 'snapshots'), { recursive: true });
+    await writeFile(this.pathFor(snapshot.url), JSON.stringify(snapshot, null, 2) + '\n');
+  }
+
+  private pathFor(url: string): string {
+    return join(this.dir, 'snapshots', `${sha256(url)}.json`);
+  }
+}
+
+export class FileReviewQueue {
+  constructor(private readonly dir: string) {}
+
+  async add(item: ReviewItem): Promise<void> {
+    await mkdir(join(this.dir, 'reviews'), { recursive: true });
+    await writeFile(this.pathFor(item.id), JSON.stringify(item, null, 2) + '\n');
+  }
+
+  async get(id: string): Promise<ReviewItem | null> {
+    return readJson<ReviewItem>(this.pathFor(id));
+  }
+
+  /**
+   * Review items, oldest first, optionally only those with a status
+   */
+  async list(status?: ReviewItem['status']): Promise<ReviewItem[]> {
+    let names: string[];
+    try {
+      names = await readdir(join(this.dir, 'reviews'));
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+
+    const items: ReviewItem[] = [];
+    for (const name of names.filter(n => n.endsWith('.json')).sort()) {
+      const item = await readJson<ReviewItem>(join(this.dir, 'reviews', name));
+      if (item && (!status || item.status === status)) items.push(item);
+    }
+    return items.sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+  }
+
+  async resolve(id: string, resolution: string, now: Date = new Date()): Promise<ReviewItem> {
+    const item = await this.get(id);
+    if (!item) throw new Error(`Unknown review item: ${id}`);
+
+    const resolved: ReviewItem = {
+      ...item,
+      status: 'resolved',
+      resolvedAt: now.toISOString(),
+      resolution,
+    };
+    await this.add(resolved);
+    return resolved;
+  }
+
+  private pathFor(id: string): string {
+    if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid review item id: ${id}`);
+    return join(this.dir, 'reviews', `${id}.json`);
+  }
+}
+
+export function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T;
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return null;
+    throw e;
+  }
+}
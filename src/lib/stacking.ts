@@ -0,0 +1,128 @@
+/**
+ * Benefit stacking and conflicts
+ *
+ * Uses the typed relationships on each benefit to put a veteran's
+ * matches in a sensible application order (prerequisites first, then
+ * "use before" hints) and to flag combinations that don't work:
+ * two benefits that exclude each other, or a benefit whose
+ * prerequisite isn't among the matches.
+ */
+
+import type { BenefitMatch, BenefitRelationship } from '../data/schema';
+
+export interface ApplicationStep {
+  benefitId: string;
+  step: number;                  // 1-based position in the plan
+  after: string[];               // Benefits in the plan to apply for first
+  stacksWith: string[];          // Benefits in the plan it can be combined with
+}
+
+export interface BenefitConflict {
+  type: 'excludes' | 'missing-requirement';
+  benefitIds: [string, string];  // [benefit, the one it excludes / requires]
+  note?: string;
+}
+
+export interface ApplicationPlan {
+  order: ApplicationStep[];
+  conflicts: BenefitConflict[];
+}
+
+/**
+ * Order matches for applying and collect conflicts. Matches already
+ * ruled out ('unlikely') are left out of the plan. Otherwise the
+ * input order (usually best match first) is kept wherever the
+ * relationships allow it.
+ */
+export function planApplications(matches: BenefitMatch[]): ApplicationPlan {
+  const candidates = matches.filter(match => match.eligibilityStatus !== 'unlikely');
+  const position = new Map(candidates.map((match, i) => [match.benefit.id, i]));
+  const inPlan = (id: string) => position.has(id);
+
+  const before = new Map<string, Set<string>>(candidates.map(m => [m.benefit.id, new Set()]));
+  const stacks = new Map<string, Set<string>>(candidates.map(m => [m.benefit.id, new Set()]));
+  const conflicts: BenefitConflict[] = [];
+  const excluded = new Set<string>();
+
+  for (const { benefit } of candidates) {
+    for (const rel of benefit.relationships ?? []) {
+      const other = rel.benefitId;
+
+      switch (rel.type) {
+        case 'requires':
+          if (inPlan(other)) {
+            before.get(benefit.id)!.add(other);
+          } else {
+            conflicts.push(conflict('missing-requirement', benefit.id, other, rel));
+          }
+          break;
+        case 'use-before':
+          if (inPlan(other)) before.get(other)!.add(benefit.id);
+          break;
+        case 'stacks-with':
+          if (inPlan(other)) {
+            stacks.get(benefit.id)!.add(other);
+            stacks.get(other)!.add(benefit.id);
+          }
+          break;
+        case 'excludes': {
+          // Either side may declare it; report each pair once
+          const key = [benefit.id, other].sort().join('|');
+          if (inPlan(other) && !excluded.has(key)) {
+            excluded.add(key);
+            conflicts.push(conflict('excludes', benefit.id, other, rel));
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  const ordered = topologicalOrder(
+    candidates.map(m => m.benefit.id),
+    before,
+    id => position.get(id)!
+  );
+
+  return {
+    order: ordered.map((benefitId, i) => ({
+      benefitId,
+      step: i + 1,
+      after: [...before.get(benefitId)!].sort((a, b) => position.get(a)! - position.get(b)!),
+      stacksWith: [...stacks.get(benefitId)!].sort((a, b) => position.get(a)! - position.get(b)!),
+    })),
+    conflicts,
+  };
+}
+
+/**
+ * Kahn's algorithm, always taking the earliest ready id. A cycle in the
+ * data shouldn't lose benefits, so it's broken at its earliest member.
+ */
+function topologicalOrder(
+  ids: string[],
+  before: Map<string, Set<string>>,
+  rank: (id: string) => number
+): string[] {
+  const done = new Set<string>();
+  const result: string[] = [];
+
+  while (result.length < ids.length) {
+    const remaining = ids.filter(id => !done.has(id));
+    const ready = remaining.filter(id => [...before.get(id)!].every(dep => done.has(dep)));
+    const next = (ready.length ? ready : remaining).sort((a, b) => rank(a) - rank(b))[0];
+    done.add(next);
+    result.push(next);
+  }
+
+  return result;
+}
+
+function conflict(
+  type: BenefitConflict['type'],
+  benefitId: string,
+  otherId: string,
+  rel: BenefitRelationship
+): BenefitConflict {
+  return { type, benefitIds: [benefitId, otherId], ...(rel.note ? { note: rel.note } : {}) };
+}
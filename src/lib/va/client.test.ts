@@ -0,0 +1,121 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { MOCK_URLS, mockDisabilityRating, startVaMockServer, type VaMockOptions } from '../../poc/va-mock-server';
+import { VaVerificationClient, type VaClientConfig } from './client';
+import { VaApiError, VaAuthError, VaNetworkError, VaRateLimitError } from './errors';
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = null;
+});
+
+/**
+ * Mock server on a free port and a signed-in client pointed at it.
+ * Sleeps are recorded instead of waited out.
+ */
+async function setup(mock: VaMockOptions = {}, config: Partial<VaClientConfig> = {}) {
+  server = await startVaMockServer({ port: 0, ...mock });
+  const { port } = server.address() as AddressInfo;
+  const sleeps: number[] = [];
+  const client = new VaVerificationClient({
+    clientId: 'test-client',
+    clientSecret: 'test-secret',
+    redirectUri: 'http://localhost/callback',
+    ...MOCK_URLS(port),
+    sleep: async ms => { sleeps.push(ms); },
+    ...config,
+  });
+  await client.exchangeCode('test-code');
+  return { client, sleeps };
+}
+
+describe('VaVerificationClient retries', () => {
+  it('retries 5xx responses with backoff until one succeeds', async () => {
+    const { client, sleeps } = await setup({ failFirst: { status: 503, count: 2 } });
+
+    await expect(client.getDisabilityRating()).resolves.toEqual(mockDisabilityRating);
+    expect(sleeps).toHaveLength(2);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(250);
+    expect(sleeps[0]).toBeLessThanOrEqual(500);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(500);
+    expect(sleeps[1]).toBeLessThanOrEqual(1000);
+  });
+
+  it('waits for Retry-After instead of the backoff delay', async () => {
+    const { client, sleeps } = await setup({ failFirst: { status: 429, count: 1, retryAfter: 2 } });
+
+    await client.getVeteranStatus();
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it("doesn't wait out a Retry-After longer than maxRetryAfterMs", async () => {
+    const { client, sleeps } = await setup(
+      { failFirst: { status: 429, count: 1, retryAfter: 3600 } },
+      { maxRetryAfterMs: 10_000 }
+    );
+
+    const error = await client.getVeteranStatus().catch(e => e);
+    expect(error).toBeInstanceOf(VaRateLimitError);
+    expect(error.retryAfterMs).toBe(3_600_000);
+    expect(sleeps).toEqual([]);
+  });
+
+  it('stops after maxRetries', async () => {
+    const { client, sleeps } = await setup({ failFirst: { status: 503, count: 10 } }, { maxRetries: 2 });
+
+    const error = await client.getServiceHistory().catch(e => e);
+    expect(error).toBeInstanceOf(VaApiError);
+    expect(error).not.toBeInstanceOf(VaAuthError);
+    expect(error.status).toBe(503);
+    expect(sleeps).toHaveLength(2);
+  });
+});
+
+describe('VaVerificationClient errors', () => {
+  it('maps a 429 that outlasts every retry to VaRateLimitError', async () => {
+    const { client } = await setup({ failFirst: { status: 429, count: 10, retryAfter: 1 } });
+
+    const error = await client.getVeteranStatus().catch(e => e);
+    expect(error).toBeInstanceOf(VaRateLimitError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(1000);
+  });
+
+  it('maps a rejected token without a refresh token to VaAuthError', async () => {
+    const { client } = await setup();
+    client.setTokens({ accessToken: 'not-a-mock-token', expiresAt: Date.now() + 3_600_000, scope: '' });
+
+    const error = await client.getVeteranStatus().catch(e => e);
+    expect(error).toBeInstanceOf(VaAuthError);
+    expect(error.status).toBe(401);
+  });
+
+  it('refreshes and retries once when the API rejects the token', async () => {
+    const { client } = await setup();
+    const { refreshToken } = client.getTokens()!;
+    client.setTokens({ accessToken: 'not-a-mock-token', refreshToken, expiresAt: Date.now() + 3_600_000, scope: '' });
+
+    await expect(client.getDisabilityRating()).resolves.toEqual(mockDisabilityRating);
+    expect(client.getTokens()!.accessToken).toMatch(/^mock-access-/);
+  });
+
+  it('throws VaAuthError before any request when not signed in', async () => {
+    const { client } = await setup();
+    client.setTokens(null);
+
+    await expect(client.getVeteranStatus()).rejects.toBeInstanceOf(VaAuthError);
+  });
+
+  it('maps connection failures to VaNetworkError after retrying', async () => {
+    const { client, sleeps } = await setup({}, { maxRetries: 1 });
+    await new Promise(resolve => server!.close(resolve));
+    server = null;
+
+    const error = await client.getVeteranStatus().catch(e => e);
+    expect(error).toBeInstanceOf(VaNetworkError);
+    expect(sleeps).toHaveLength(1);
+  });
+});
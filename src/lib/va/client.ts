@@ -0,0 +1,285 @@
+/**
+ * VA Veteran Verification client
+ *
+ * Typed wrapper around the OAuth authorization code flow and the
+ * status, service history and disability rating endpoints.
+ *
+ * - Access tokens are refreshed automatically when they're about to
+ *   expire (needs the offline_access scope for a refresh token).
+ * - 429 and 5xx responses and network failures are retried with
+ *   exponential backoff, honoring Retry-After up to maxRetryAfterMs.
+ *   Longer waits aren't retried; the caller gets the error with
+ *   retryAfterMs and can decide.
+ * - All URLs are configurable, so tests can point it at a local server.
+ */
+
+import {
+  VaApiError,
+  VaAuthError,
+  VaNetworkError,
+  VaRateLimitError,
+} from './errors';
+import type {
+  VaDisabilityRating,
+  VaServiceHistory,
+  VaTokenResponse,
+  VaTokenSet,
+  VaVeteranStatus,
+} from './types';
+
+export const VA_SANDBOX = {
+  authUrl: 'https://sandbox-api.va.gov/oauth2/veteran-verification/v1/authorization',
+  tokenUrl: 'https://sandbox-api.va.gov/oauth2/veteran-verification/v1/token',
+  apiBase: 'https://sandbox-api.va.gov/services/veteran_verification/v2',
+};
+
+export const VA_SCOPES = [
+  'profile',
+  'openid',
+  'offline_access',
+  'service_history.read',
+  'veteran_status.read',
+  'disability_rating.read',
+];
+
+export interface VaClientConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  authUrl?: string;
+  tokenUrl?: string;
+  apiBase?: string;
+  scopes?: string[];
+  maxRetries?: number;           // Retries after the first attempt (default 3)
+  baseDelayMs?: number;          // First backoff delay (default 500ms)
+  maxRetryAfterMs?: number;      // Longest Retry-After we'll wait out (default 30s)
+  refreshSkewMs?: number;        // Refresh this long before expiry (default 60s)
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export class VaVerificationClient {
+  private readonly config: Required<Omit<VaClientConfig, 'fetch' | 'sleep' | 'now'>>;
+  private readonly fetchFn: typeof fetch;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly now: () => number;
+  private tokens: VaTokenSet | null = null;
+  private refreshing: Promise<VaTokenSet> | null = null;
+
+  constructor(config: VaClientConfig) {
+    this.config = {
+      authUrl: VA_SANDBOX.authUrl,
+      tokenUrl: VA_SANDBOX.tokenUrl,
+      apiBase: VA_SANDBOX.apiBase,
+      scopes: VA_SCOPES,
+      maxRetries: 3,
+      baseDelayMs: 500,
+      maxRetryAfterMs: 30_000,
+      refreshSkewMs: 60_000,
+      ...config,
+    };
+    this.fetchFn = config.fetch ?? fetch;
+    this.sleep = config.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.now = config.now ?? Date.now;
+  }
+
+  /**
+   * URL to send the veteran to for login. Extra params (e.g. PKCE) are
+   * added as-is.
+   */
+  getAuthorizationUrl(state: string, extraParams: Record<string, string> = {}): string {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      response_type: 'code',
+      scope: this.config.scopes.join(' '),
+      state,
+      ...extraParams,
+    });
+    return `${this.config.authUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange the authorization code from the callback for tokens
+   */
+  async exchangeCode(code: string, extraParams: Record<string, string> = {}): Promise<VaTokenSet> {
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      ...extraParams,
+    });
+  }
+
+  /**
+   * Get a new access token with the refresh token. Concurrent callers
+   * share one refresh request.
+   */
+  async refresh(): Promise<VaTokenSet> {
+    const refreshToken = this.tokens?.refreshToken;
+    if (!refreshToken) {
+      throw new VaAuthError('No refresh token; request the offline_access scope', 401, this.config.tokenUrl, '');
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = this.requestToken({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      }).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Restore tokens saved from an earlier session
+   */
+  setTokens(tokens: VaTokenSet | null): void {
+    this.tokens = tokens;
+  }
+
+  getTokens(): VaTokenSet | null {
+    return this.tokens;
+  }
+
+  getVeteranStatus(): Promise<VaVeteranStatus> {
+    return this.get<VaVeteranStatus>('/status');
+  }
+
+  getServiceHistory(): Promise<VaServiceHistory> {
+    return this.get<VaServiceHistory>('/service_history');
+  }
+
+  getDisabilityRating(): Promise<VaDisabilityRating> {
+    return this.get<VaDisabilityRating>('/disability_rating');
+  }
+
+  /**
+   * Authenticated GET. Refreshes first if the token is about to expire,
+   * and once more if the API rejects it.
+   */
+  private async get<T>(path: string): Promise<T> {
+    const url = `${this.config.apiBase}${path}`;
+    const token = await this.validAccessToken();
+
+    let response = await this.send(url, () => ({
+      headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' },
+    }));
+
+    if (response.status === 401 && this.tokens?.refreshToken) {
+      const refreshed = await this.refresh();
+      response = await this.send(url, () => ({
+        headers: { Authorization: `Bearer ${refreshed.accessToken}`, Accept: 'application/json' },
+      }));
+    }
+
+    if (!response.ok) {
+      throw await this.toError(response, url);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private async validAccessToken(): Promise<string> {
+    if (!this.tokens) {
+      throw new VaAuthError('Not signed in; exchange a code first', 401, this.config.tokenUrl, '');
+    }
+    const expiresSoon = this.tokens.expiresAt - this.config.refreshSkewMs <= this.now();
+    if (expiresSoon && this.tokens.refreshToken) {
+      return (await this.refresh()).accessToken;
+    }
+    return this.tokens.accessToken;
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<VaTokenSet> {
+    const url = this.config.tokenUrl;
+    const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+
+    const response = await this.send(url, () => ({
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${credentials}`,
+      },
+      body: new URLSearchParams(params),
+    }));
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new VaAuthError(`Token request failed: ${response.status} - ${body}`, response.status, url, body);
+    }
+
+    const data = await response.json() as VaTokenResponse;
+    this.tokens = {
+      accessToken: data.access_token,
+      // Refresh responses may omit the refresh token; keep the old one
+      refreshToken: data.refresh_token ?? this.tokens?.refreshToken,
+      expiresAt: this.now() + data.expires_in * 1000,
+      scope: data.scope,
+    };
+    return this.tokens;
+  }
+
+  /**
+   * fetch with retries on network errors, 429 and 5xx
+   */
+  private async send(url: string, init: () => RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.fetchFn(url, init());
+      } catch (e: any) {
+        if (attempt >= this.config.maxRetries) {
+          throw new VaNetworkError(`Request to ${url} failed: ${e.message}`, url, e);
+        }
+        await this.sleep(this.backoff(attempt, null));
+        continue;
+      }
+
+      // Don't let the server hold the request for longer than we allow
+      const retryAfter = retryAfterMs(response);
+      const retryable = (response.status === 429 || response.status >= 500) &&
+        (retryAfter === null || retryAfter <= this.config.maxRetryAfterMs);
+      if (!retryable || attempt >= this.config.maxRetries) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      await this.sleep(this.backoff(attempt, retryAfter));
+    }
+  }
+
+  private backoff(attempt: number, retryAfter: number | null): number {
+    if (retryAfter !== null) return retryAfter;
+    const delay = this.config.baseDelayMs * 2 ** attempt;
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  private async toError(response: Response, url: string): Promise<VaApiError> {
+    const body = await response.text();
+    const message = `VA API ${new URL(url).pathname} failed: ${response.status} - ${body}`;
+
+    if (response.status === 401 || response.status === 403) {
+      return new VaAuthError(message, response.status, url, body);
+    }
+    if (response.status === 429) {
+      return new VaRateLimitError(message, response.status, url, body, retryAfterMs(response));
+    }
+    return new VaApiError(message, response.status, url, body);
+  }
+}
+
+/**
+ * Retry-After as milliseconds (seconds or HTTP date form)
+ */
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,58 @@
+/**
+ * VA client errors
+ *
+ * Callers can branch on the class: re-login on VaAuthError, back off on
+ * VaRateLimitError, show "VA is unavailable" on VaNetworkError or a 5xx
+ * VaApiError.
+ */
+
+export class VaClientError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The VA API answered with an error status
+ */
+export class VaApiError extends VaClientError {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly endpoint: string,
+    readonly body: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Token exchange or refresh failed, or the API rejected our token.
+ * The veteran needs to sign in again.
+ */
+export class VaAuthError extends VaApiError {}
+
+/**
+ * Still rate limited after every retry
+ */
+export class VaRateLimitError extends VaApiError {
+  constructor(
+    message: string,
+    status: number,
+    endpoint: string,
+    body: string,
+    readonly retryAfterMs: number | null
+  ) {
+    super(message, status, endpoint, body);
+  }
+}
+
+/**
+ * Couldn't reach the VA API at all
+ */
+export class VaNetworkError extends VaClientError {
+  constructor(message: string, readonly endpoint: string, cause: unknown) {
+    super(message, { cause });
+  }
+}
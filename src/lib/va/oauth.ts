@@ -0,0 +1,85 @@
+/**
+ * OAuth login state and PKCE
+ *
+ * Each login gets an unguessable `state` and a PKCE verifier, both kept
+ * server-side. The callback must present a state we issued and haven't
+ * used yet; the matching verifier then goes with the code exchange, so
+ * a stolen authorization code is useless on its own.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+  codeChallengeMethod: 'S256';
+}
+
+export interface PendingLogin extends PkcePair {
+  state: string;
+  expiresAt: number;             // Epoch ms
+}
+
+/**
+ * Generate a PKCE verifier and its S256 challenge (RFC 7636)
+ */
+export function createPkcePair(): PkcePair {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge, codeChallengeMethod: 'S256' };
+}
+
+/**
+ * Pending logins, keyed by state. In memory: logins don't survive a
+ * restart, which only means the veteran has to click "sign in" again.
+ */
+export class OAuthStateStore {
+  private readonly pending = new Map<string, PendingLogin>();
+
+  constructor(
+    private readonly ttlMs: number = 10 * 60 * 1000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Start a login: issue a state and PKCE pair
+   */
+  issue(): PendingLogin {
+    this.sweep();
+    const login: PendingLogin = {
+      state: randomBytes(32).toString('base64url'),
+      expiresAt: this.now() + this.ttlMs,
+      ...createPkcePair(),
+    };
+    this.pending.set(login.state, login);
+    return login;
+  }
+
+  /**
+   * Finish a login. Returns null for unknown, reused or expired states.
+   */
+  consume(state: string | null): PendingLogin | null {
+    if (!state) return null;
+    const login = this.pending.get(state);
+    this.pending.delete(state);
+    if (!login || login.expiresAt <= this.now()) return null;
+    return login;
+  }
+
+  private sweep(): void {
+    const now = this.now();
+    for (const [state, login] of this.pending) {
+      if (login.expiresAt <= now) this.pending.delete(state);
+    }
+  }
+}
+
+/**
+ * Query params that attach a pending login to the authorization URL
+ */
+export function authorizationParams(login: PendingLogin): Record<string, string> {
+  return {
+    code_challenge: login.codeChallenge,
+    code_challenge_method: login.codeChallengeMethod,
+  };
+}
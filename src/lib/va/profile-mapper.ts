@@ -0,0 +1,126 @@
+/**
+ * Map VA API data into a VeteranProfile
+ *
+ * Verified VA data wins over what the veteran told us; anything VA
+ * doesn't cover (location, family, income) comes from the veteran's
+ * own answers. `provenance` records which is which, so the UI can show
+ * "verified with VA" next to a field.
+ */
+
+import {
+  DISCHARGE_STATUSES,
+  type DischargeStatus,
+  type ServicePeriod,
+  type VeteranProfile,
+} from '../../data/schema';
+import { activeDutyDays, erasForPeriods } from '../service';
+import type { VaDisabilityRating, VaServiceEpisode, VaServiceHistory } from './types';
+
+export type FieldSource = 'verified' | 'reported';
+
+export type ProfileProvenance = Partial<Record<keyof VeteranProfile, FieldSource>>;
+
+export interface VaProfileData {
+  serviceHistory?: VaServiceHistory;
+  disabilityRating?: VaDisabilityRating;
+}
+
+export interface MappedProfile {
+  profile: VeteranProfile;
+  provenance: ProfileProvenance;
+}
+
+// VA discharge strings that don't already match our names
+const DISCHARGE_ALIASES: Record<string, DischargeStatus> = {
+  'honorable-absence-of-negative-report': 'honorable',
+  'honorable-for-va-purposes': 'honorable',
+  'under-honorable-conditions': 'general',
+  'general-under-honorable-conditions': 'general',
+  'under-other-than-honorable-conditions': 'other-than-honorable',
+  'oth': 'other-than-honorable',
+  'dishonorable-for-va-purposes': 'dishonorable',
+  'bad-conduct-discharge': 'bad-conduct',
+  'entry-level': 'uncharacterized',
+};
+
+/**
+ * Build a profile from VA data plus the veteran's own answers
+ */
+export function mapVaDataToProfile(
+  data: VaProfileData,
+  reported: VeteranProfile,
+  asOf: Date = new Date()
+): MappedProfile {
+  const profile: VeteranProfile = { ...reported };
+  const provenance: ProfileProvenance = {};
+
+  for (const key of Object.keys(reported) as (keyof VeteranProfile)[]) {
+    if (reported[key] !== undefined) provenance[key] = 'reported';
+  }
+
+  const verify = <K extends keyof VeteranProfile>(key: K, value: VeteranProfile[K] | undefined) => {
+    if (value === undefined) return;
+    profile[key] = value;
+    provenance[key] = 'verified';
+  };
+
+  const episodes = sortEpisodes(data.serviceHistory?.data ?? []);
+  if (episodes.length) {
+    const latest = episodes[episodes.length - 1].attributes;
+    const servicePeriods = episodes.map(toServicePeriod);
+    const serviceDays = activeDutyDays(servicePeriods, { asOf });
+
+    verify('servicePeriods', servicePeriods);
+    verify('serviceEras', erasForPeriods(servicePeriods, asOf));
+    verify('branchOfService', normalizeBranch(latest.branch_of_service));
+    verify('dischargeStatus', normalizeDischargeStatus(latest.discharge_status));
+    verify('serviceDays', serviceDays);
+    verify('yearsOfService', Math.round((serviceDays / 365.25) * 100) / 100);
+  }
+
+  if (data.disabilityRating) {
+    verify('disabilityRating', data.disabilityRating.data.attributes.combined_disability_rating);
+  }
+
+  return { profile, provenance };
+}
+
+/**
+ * Normalize a VA discharge status to the names benefit criteria use.
+ * Returns undefined for "unknown" or anything we don't recognize.
+ */
+export function normalizeDischargeStatus(status: string | undefined): DischargeStatus | undefined {
+  if (!status) return undefined;
+
+  const key = status.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  if ((DISCHARGE_STATUSES as readonly string[]).includes(key)) {
+    return key as DischargeStatus;
+  }
+  return DISCHARGE_ALIASES[key];
+}
+
+/**
+ * "Air Force" -> "air-force", "Marine Corps" -> "marine-corps"
+ */
+export function normalizeBranch(branch: string): string {
+  return branch.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+function sortEpisodes(episodes: VaServiceEpisode[]): VaServiceEpisode[] {
+  return [...episodes].sort((a, b) =>
+    a.attributes.start_date.localeCompare(b.attributes.start_date)
+  );
+}
+
+/**
+ * VA service history episodes are active-duty periods
+ */
+function toServicePeriod({ attributes }: VaServiceEpisode): ServicePeriod {
+  return {
+    entryDate: attributes.start_date,
+    separationDate: attributes.end_date,
+    dutyType: 'active',
+    branch: normalizeBranch(attributes.branch_of_service),
+    dischargeStatus: normalizeDischargeStatus(attributes.discharge_status),
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Encrypted VA token storage
+ *
+ * Tokens are encrypted at rest with AES-256-GCM. Each session is one
+ * file named by a hash of the session id, so neither the id nor the
+ * tokens can be read from disk. The hash is also bound into the
+ * ciphertext, so a file copied to another session's name won't decrypt.
+ *
+ * Key: 32 random bytes, base64, e.g. from
+ *   node -e "console.log(require('crypto').randomBytes(32).toString('base64'))"
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { VaTokenSet } from './types';
+
+export interface StoredSession {
+  tokens: VaTokenSet;
+  createdAt: number;             // Epoch ms
+  expiresAt: number;             // Session ends even if tokens could refresh
+}
+
+export interface SessionStore {
+  create(tokens: VaTokenSet): Promise<string>;
+  load(sessionId: string): Promise<StoredSession | null>;
+  update(sessionId: string, tokens: VaTokenSet): Promise<void>;
+  destroy(sessionId: string): Promise<void>;
+}
+
+interface EncryptedRecord {
+  v: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const DEFAULT_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a base64 key from config (e.g. process.env.SESSION_ENCRYPTION_KEY)
+ */
+export function parseEncryptionKey(base64: string | undefined): Buffer {
+  const key = Buffer.from(base64 ?? '', 'base64');
+  if (key.length !== 32) {
+    throw new Error('Session encryption key must be 32 bytes, base64-encoded');
+  }
+  return key;
+}
+
+export class FileSessionStore implements SessionStore {
+  constructor(
+    private readonly dir: string,
+    private readonly key: Buffer,
+    private readonly ttlMs: number = DEFAULT_SESSION_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {
+    if (key.length !== 32) {
+      throw new Error('Session encryption key must be 32 bytes');
+    }
+  }
+
+  /**
+   * Store tokens under a new random session id
+   */
+  async create(tokens: VaTokenSet): Promise<string> {
+    const sessionId = randomBytes(32).toString('base64url');
+    const createdAt = this.now();
+    await this.write(sessionId, { tokens, createdAt, expiresAt: createdAt + this.ttlMs });
+    return sessionId;
+  }
+
+  /**
+   * Load a session. Expired, missing or tampered sessions return null;
+   * expired ones are deleted.
+   */
+  async load(sessionId: string): Promise<StoredSession | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.pathFor(sessionId), 'utf8');
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+
+    let session: StoredSession;
+    try {
+      session = JSON.parse(this.decrypt(JSON.parse(raw), sessionId));
+    } catch {
+      return null;
+    }
+
+    if (session.expiresAt <= this.now()) {
+      await this.destroy(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Replace a session's tokens (e.g. after a refresh), keeping its expiry
+   */
+  async update(sessionId: string, tokens: VaTokenSet): Promise<void> {
+    const session = await this.load(sessionId);
+    if (!session) throw new Error('Session not found or expired');
+    await this.write(sessionId, { ...session, tokens });
+  }
+
+  async destroy(sessionId: string): Promise<void> {
+    await rm(this.pathFor(sessionId), { force: true });
+  }
+
+  private async write(sessionId: string, session: StoredSession): Promise<void> {
+    await mkdir(this.dir, { recursive: true, mode: 0o700 });
+    const record = this.encrypt(JSON.stringify(session), sessionId);
+    await writeFile(this.pathFor(sessionId), JSON.stringify(record), { mode: 0o600 });
+  }
+
+  private encrypt(plaintext: string, sessionId: string): EncryptedRecord {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(Buffer.from(hashId(sessionId)));
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return {
+      v: 1,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  private decrypt(record: EncryptedRecord, sessionId: string): string {
+    const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(record.iv, 'base64'));
+    decipher.setAAD(Buffer.from(hashId(sessionId)));
+    decipher.setAuthTag(Buffer.from(record.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(record.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private pathFor(sessionId: string): string {
+    return join(this.dir, `${hashId(sessionId)}.json`);
+  }
+}
+
+function hashId(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
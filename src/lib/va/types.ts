@@ -0,0 +1,84 @@
+/**
+ * VA Veteran Verification API types
+ *
+ * Shapes of the v2 responses we use. Field names follow the API
+ * (snake_case) so responses can be typed without remapping.
+ * Docs: https://developer.va.gov/explore/api/veteran-service-history-and-eligibility
+ */
+
+export interface VaTokenResponse {
+  access_token: string;
+  token_type: 'Bearer' | string;
+  expires_in: number;            // Seconds
+  refresh_token?: string;        // Only with the offline_access scope
+  scope: string;
+  id_token?: string;
+  state?: string;
+}
+
+// Tokens as the client keeps them
+export interface VaTokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;             // Epoch ms
+  scope: string;
+}
+
+export interface VaVeteranStatus {
+  data: {
+    id: string;
+    type: 'veteran_status_confirmations';
+    attributes: {
+      veteran_status: 'confirmed' | 'not confirmed';
+      not_confirmed_reason?: string;
+    };
+  };
+}
+
+export interface VaServiceEpisode {
+  id: string;
+  type: 'service-history-episodes';
+  attributes: {
+    first_name: string;
+    last_name: string;
+    branch_of_service: string;   // e.g. "Army", "Air Force"
+    start_date: string;          // YYYY-MM-DD
+    end_date: string | null;     // null while still serving
+    pay_grade?: string;
+    discharge_status?: string;   // e.g. "honorable", "other-than-honorable"
+    separation_reason?: string;
+    deployments?: {
+      start_date: string;
+      end_date: string;
+      location: string;
+    }[];
+  };
+}
+
+export interface VaServiceHistory {
+  data: VaServiceEpisode[];
+}
+
+export interface VaIndividualRating {
+  decision: 'Service Connected' | 'Not Service Connected' | string;
+  effective_date: string | null;
+  rating_end_date?: string | null;
+  rating_percentage: number | null;
+  diagnostic_type_code?: string;
+  diagnostic_type_name?: string;
+  diagnostic_text?: string;
+  static_ind?: boolean;
+}
+
+export interface VaDisabilityRating {
+  data: {
+    id: string;
+    type: 'disability-rating';
+    attributes: {
+      combined_disability_rating: number;
+      combined_effective_date: string | null;
+      legal_effective_date: string | null;
+      individual_ratings: VaIndividualRating[];
+    };
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * Benefit data validation
+ *
+ * Catches mistakes in hand-written benefit records before they reach
+ * matching: duplicate ids, dangling related benefits, bad geography,
+ * malformed dates and criteria that don't fit their requirement type.
+ */
+
+import type {
+  Benefit,
+  EligibilityRequirement,
+  EligibilityRule,
+  Locale,
+  RuleComparison,
+} from '../data/schema';
+import type { BenefitSource } from '../data/benefits';
+import { getDocumentType } from '../data/documents';
+import { US_STATES } from '../data/geo/states';
+import { zipDataset } from '../data/geo/zip-codes';
+import { getIncomeThresholdTable } from '../data/income-thresholds';
+import { getServiceEra } from '../data/service-eras';
+import { zipCenter } from './geography';
+import { DEFAULT_LOCALE, missingTranslations, SUPPORTED_LOCALES } from './i18n';
+
+export interface ValidationIssue {
+  file: string;
+  benefitId: string;
+  path: string;              // e.g. "coverage.counties[0]"
+  message: string;
+}
+
+type CriteriaKey = keyof NonNullable<EligibilityRequirement['criteria']>;
+
+// Which shorthand criteria make sense for each requirement type.
+// `rule` can express anything, so it's allowed everywhere.
+const CRITERIA_BY_TYPE: Record<EligibilityRequirement['type'], CriteriaKey[]> = {
+  service: ['minServiceDays', 'dischargeTypes', 'rule'],
+  disability: ['minDisabilityRating', 'rule'],
+  income: ['maxIncome', 'incomeLimit', 'rule'],
+  age: ['minAge', 'maxAge', 'rule'],
+  family: ['requiresSpouse', 'relationships', 'maxApplicantAge', 'rule'],
+  other: ['rule'],
+};
+
+/**
+ * Validate every benefit across all sources
+ */
+export function validateBenefits(sources: BenefitSource[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, string>();   // id -> file it was first seen in
+
+  for (const { file, benefits } of sources) {
+    for (const benefit of benefits) {
+      const previous = seen.get(benefit.id);
+      if (previous) {
+        issues.push({
+          file,
+          benefitId: benefit.id,
+          path: 'id',
+          message: `duplicate id, already defined in ${previous}`,
+        });
+      } else {
+        seen.set(benefit.id, file);
+      }
+    }
+  }
+
+  for (const { file, benefits } of sources) {
+    for (const benefit of benefits) {
+      for (const issue of validateBenefit(benefit, seen)) {
+        issues.push({ file, benefitId: benefit.id, ...issue });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a single benefit. `knownIds` is used to check relatedBenefits
+ * and relationships.
+ */
+export function validateBenefit(
+  benefit: Benefit,
+  knownIds: { has(id: string): boolean }
+): { path: string; message: string }[] {
+  const issues: { path: string; message: string }[] = [];
+
+  benefit.relatedBenefits?.forEach((id, i) => {
+    if (!knownIds.has(id)) {
+      issues.push({ path: `relatedBenefits[${i}]`, message: `unknown benefit "${id}"` });
+    }
+  });
+
+  benefit.relationships?.forEach((rel, i) => {
+    if (rel.benefitId === benefit.id) {
+      issues.push({ path: `relationships[${i}].benefitId`, message: 'benefit is related to itself' });
+    } else if (!knownIds.has(rel.benefitId)) {
+      issues.push({ path: `relationships[${i}].benefitId`, message: `unknown benefit "${rel.benefitId}"` });
+    }
+  });
+
+  const states = benefit.coverage.states ?? [];
+  states.forEach((code, i) => {
+    if (!US_STATES[code]) {
+      issues.push({ path: `coverage.states[${i}]`, message: `"${code}" is not a USPS state code` });
+    }
+  });
+
+  const stateFips = states.map(code => US_STATES[code]?.fips).filter(Boolean);
+  const allFips = Object.values(US_STATES).map(s => s.fips);
+
+  benefit.coverage.counties?.forEach((fips, i) => {
+    const path = `coverage.counties[${i}]`;
+    if (!/^\d{5}$/.test(fips)) {
+      issues.push({ path, message: `"${fips}" is not a 5-digit county FIPS code` });
+    } else if (stateFips.length && !stateFips.includes(fips.slice(0, 2))) {
+      issues.push({ path, message: `county ${fips} is not in ${states.join(', ')}` });
+    } else if (!allFips.includes(fips.slice(0, 2))) {
+      issues.push({ path, message: `county ${fips} has an unknown state prefix` });
+    }
+  });
+
+  const cities = new Set(zipDataset.zips.map(([, city, stateCode]) => `${city}, ${stateCode}`));
+  benefit.coverage.cities?.forEach((city, i) => {
+    const path = `coverage.cities[${i}]`;
+    if (!/^.+, [A-Z]{2}$/.test(city)) {
+      issues.push({ path, message: `"${city}" should be "City, ST"` });
+    } else if (!cities.has(city)) {
+      issues.push({ path, message: `"${city}" is not a city in the ZIP dataset, so it would never match` });
+    }
+  });
+
+  const { radius } = benefit.coverage;
+  if (radius && !zipCenter(radius.zip)) {
+    issues.push({ path: 'coverage.radius.zip', message: `no coordinates for ZIP ${radius.zip}` });
+  }
+
+  issues.push(...coverageLevelIssues(benefit));
+
+  if (benefit.source.lastVerified !== null && !isIsoDate(benefit.source.lastVerified)) {
+    issues.push({
+      path: 'source.lastVerified',
+      message: `"${benefit.source.lastVerified}" is not an ISO date (YYYY-MM-DD)`,
+    });
+  }
+
+  issues.push(...effectiveDateIssues(benefit, ''));
+
+  if (!benefit.action.steps?.length && !benefit.action.instructions) {
+    issues.push({ path: 'action', message: 'needs steps or instructions' });
+  }
+  benefit.action.documents?.forEach((id, i) => {
+    if (!getDocumentType(id)) {
+      issues.push({ path: `action.documents[${i}]`, message: `unknown document "${id}"` });
+    }
+  });
+
+  for (const [locale, t] of Object.entries(benefit.translations ?? {})) {
+    const path = `translations.${locale}`;
+    if (locale === DEFAULT_LOCALE) {
+      issues.push({ path, message: 'English text belongs in the main fields' });
+    }
+    const requirements = t.eligibility?.requirements?.length ?? 0;
+    if (requirements > benefit.eligibility.requirements.length) {
+      issues.push({
+        path: `${path}.eligibility.requirements`,
+        message: `${requirements} translations for ${benefit.eligibility.requirements.length} requirements`,
+      });
+    }
+    const steps = t.action?.steps?.length ?? 0;
+    if (steps > (benefit.action.steps?.length ?? 0)) {
+      issues.push({
+        path: `${path}.action.steps`,
+        message: `${steps} translations for ${benefit.action.steps?.length ?? 0} steps`,
+      });
+    }
+  }
+
+  benefit.eligibility.requirements.forEach((req, i) => {
+    issues.push(...effectiveDateIssues(req, `eligibility.requirements[${i}].`));
+
+    if (req.criteria?.rule) {
+      const comparisons = ruleComparisons(req.criteria.rule);
+      for (const era of comparisons.map(c => c.era).filter(Boolean) as string[]) {
+        if (!getServiceEra(era)) {
+          issues.push({
+            path: `eligibility.requirements[${i}].criteria.rule`,
+            message: `unknown service era "${era}"`,
+          });
+        }
+      }
+      for (const table of comparisons.map(c => c.threshold?.table).filter(Boolean) as string[]) {
+        if (!getIncomeThresholdTable(table)) {
+          issues.push({
+            path: `eligibility.requirements[${i}].criteria.rule`,
+            message: `unknown income threshold table "${table}"`,
+          });
+        }
+      }
+    }
+
+    const incomeTable = req.criteria?.incomeLimit?.table;
+    if (incomeTable && !getIncomeThresholdTable(incomeTable)) {
+      issues.push({
+        path: `eligibility.requirements[${i}].criteria.incomeLimit.table`,
+        message: `unknown income threshold table "${incomeTable}"`,
+      });
+    }
+
+    const allowed = CRITERIA_BY_TYPE[req.type];
+    for (const key of Object.keys(req.criteria ?? {}) as CriteriaKey[]) {
+      if (!allowed.includes(key)) {
+        issues.push({
+          path: `eligibility.requirements[${i}].criteria.${key}`,
+          message: `"${key}" doesn't apply to a ${req.type} requirement`,
+        });
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Untranslated text, one entry per benefit and locale. These are
+ * reported rather than treated as errors, since English is the fallback.
+ */
+export function findMissingTranslations(
+  sources: BenefitSource[],
+  locales: Locale[] = SUPPORTED_LOCALES
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const { file, benefits } of sources) {
+    for (const benefit of benefits) {
+      for (const locale of locales) {
+        const missing = missingTranslations(benefit, locale);
+        if (missing.length) {
+          issues.push({
+            file,
+            benefitId: benefit.id,
+            path: `translations.${locale}`,
+            message: `missing ${missing.join(', ')}`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Format an issue as "file: benefit-id: path: message"
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  return `${issue.file}: ${issue.benefitId}: ${issue.path}: ${issue.message}`;
+}
+
+/**
+ * Local benefits need coverage that matches their level; without it they
+ * would show up everywhere
+ */
+function coverageLevelIssues(benefit: Benefit): { path: string; message: string }[] {
+  const { states, counties, cities, zipCodes, radius } = benefit.coverage;
+  switch (benefit.level) {
+    case 'county':
+      return counties?.length ? [] : [{ path: 'coverage.counties', message: 'county benefits need counties' }];
+    case 'city':
+      return cities?.length || zipCodes?.length
+        ? []
+        : [{ path: 'coverage.cities', message: 'city benefits need cities or zipCodes' }];
+    case 'nonprofit':
+      return [states, counties, cities, zipCodes].some(list => list?.length) || radius
+        ? []
+        : [{ path: 'coverage', message: 'nonprofit benefits need states, counties, cities, zipCodes or a radius' }];
+    default:
+      return [];
+  }
+}
+
+function ruleComparisons(rule: EligibilityRule): RuleComparison[] {
+  if ('all' in rule) return rule.all.flatMap(ruleComparisons);
+  if ('any' in rule) return rule.any.flatMap(ruleComparisons);
+  if ('not' in rule) return ruleComparisons(rule.not);
+  return [rule];
+}
+
+function effectiveDateIssues(
+  item: { effectiveFrom?: string; effectiveTo?: string },
+  prefix: string
+): { path: string; message: string }[] {
+  const issues: { path: string; message: string }[] = [];
+  for (const key of ['effectiveFrom', 'effectiveTo'] as const) {
+    const value = item[key];
+    if (value !== undefined && !isIsoDate(value)) {
+      issues.push({ path: `${prefix}${key}`, message: `"${value}" is not an ISO date (YYYY-MM-DD)` });
+    }
+  }
+  if (item.effectiveFrom && item.effectiveTo && item.effectiveTo < item.effectiveFrom) {
+    issues.push({ path: `${prefix}effectiveTo`, message: 'ends before effectiveFrom' });
+  }
+  return issues;
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
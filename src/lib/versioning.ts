@@ -0,0 +1,191 @@
+/**
+ * Benefit catalog versions
+ *
+ * Benefits and individual requirements can carry effectiveFrom /
+ * effectiveTo dates, so one catalog can describe a program before and
+ * after a rule change. On top of that, each published catalog is saved
+ * as a snapshot under a content-derived version id. Together they let a
+ * caseworker re-run a match exactly as it was done last year (that
+ * year's snapshot, as of that date) and see what changed since.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { Benefit } from '../data/schema';
+
+export interface Effective {
+  effectiveFrom?: string;
+  effectiveTo?: string;
+}
+
+export interface CatalogSnapshot {
+  version: string;               // Hash of the benefits, stable across runs
+  createdAt: string;             // ISO timestamp
+  benefits: Benefit[];
+}
+
+export interface BenefitChange {
+  id: string;
+  fields: string[];              // Paths that differ, e.g. "eligibility.requirements[0].criteria"
+}
+
+export interface CatalogDiff {
+  from: string;                  // Version ids
+  to: string;
+  added: string[];
+  removed: string[];
+  changed: BenefitChange[];
+}
+
+/**
+ * Whether something dated is in effect on `asOf` (both ends inclusive)
+ */
+export function isEffective(item: Effective, asOf: Date = new Date()): boolean {
+  const day = asOf.toISOString().slice(0, 10);
+  return (!item.effectiveFrom || item.effectiveFrom <= day) &&
+    (!item.effectiveTo || day <= item.effectiveTo);
+}
+
+/**
+ * Version id for a set of benefits. Ignores order and key order, so the
+ * same data always gets the same id.
+ */
+export function catalogVersion(benefits: readonly Benefit[]): string {
+  const sorted = [...benefits].sort((a, b) => a.id.localeCompare(b.id));
+  return createHash('sha256').update(stableStringify(sorted)).digest('hex').slice(0, 12);
+}
+
+export function createCatalogSnapshot(
+  benefits: readonly Benefit[],
+  now: Date = new Date()
+): CatalogSnapshot {
+  return {
+    version: catalogVersion(benefits),
+    createdAt: now.toISOString(),
+    benefits: [...benefits],
+  };
+}
+
+/**
+ * What changed between two snapshots
+ */
+export function diffCatalogs(from: CatalogSnapshot, to: CatalogSnapshot): CatalogDiff {
+  const before = new Map(from.benefits.map(b => [b.id, b]));
+  const after = new Map(to.benefits.map(b => [b.id, b]));
+
+  const changed: BenefitChange[] = [];
+  for (const [id, benefit] of after) {
+    const previous = before.get(id);
+    if (!previous) continue;
+    const fields = changedPaths(previous, benefit, '');
+    if (fields.length) changed.push({ id, fields });
+  }
+
+  return {
+    from: from.version,
+    to: to.version,
+    added: [...after.keys()].filter(id => !before.has(id)).sort(),
+    removed: [...before.keys()].filter(id => !after.has(id)).sort(),
+    changed: changed.sort((a, b) => a.id.localeCompare(b.id)),
+  };
+}
+
+/**
+ * Where published snapshots live. They're made at release time (npm run
+ * catalog:snapshot) and kept outside git, so deployments point
+ * CATALOG_HISTORY_DIR at storage that outlives a release.
+ */
+export function catalogHistoryDir(root: string = process.cwd()): string {
+  return process.env.CATALOG_HISTORY_DIR || join(root, 'data/catalog-history');
+}
+
+/**
+ * Snapshots stored as <version>.json in one directory
+ */
+export class FileCatalogHistory {
+  constructor(private readonly dir: string) {}
+
+  /**
+   * Save a snapshot unless that version is already stored.
+   * Returns false when it was already there.
+   */
+  async save(snapshot: CatalogSnapshot): Promise<boolean> {
+    if (await this.load(snapshot.version)) return false;
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(snapshot.version), JSON.stringify(snapshot, null, 2) + '\n');
+    return true;
+  }
+
+  async load(version: string): Promise<CatalogSnapshot | null> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(version), 'utf8')) as CatalogSnapshot;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  /**
+   * All snapshots, oldest first
+   */
+  async list(): Promise<CatalogSnapshot[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+
+    const snapshots: CatalogSnapshot[] = [];
+    for (const name of names.filter(n => n.endsWith('.json'))) {
+      const snapshot = await this.load(name.slice(0, -'.json'.length));
+      if (snapshot) snapshots.push(snapshot);
+    }
+    return snapshots.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Snapshot that was current at a point in time
+   */
+  async at(date: Date): Promise<CatalogSnapshot | null> {
+    const when = date.toISOString();
+    const earlier = (await this.list()).filter(s => s.createdAt <= when);
+    return earlier[earlier.length - 1] ?? null;
+  }
+
+  private pathFor(version: string): string {
+    if (!/^[0-9a-f]+$/.test(version)) throw new Error(`Invalid catalog version: ${version}`);
+    return join(this.dir, `${version}.json`);
+  }
+}
+
+function changedPaths(a: unknown, b: unknown, path: string): string[] {
+  if (stableStringify(a) === stableStringify(b)) return [];
+
+  if (Array.isArray(a) && Array.isArray(b) && a.length === b.length) {
+    return a.flatMap((item, i) => changedPaths(item, b[i], `${path}[${i}]`));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+    return keys.flatMap(key => changedPaths(a[key], b[key], path ? `${path}.${key}` : key));
+  }
+  return [path || '(root)'];
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
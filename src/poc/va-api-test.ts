@@ -4,144 +4,64 @@
  *
  * Run: npm run poc:va
  * Then open the URL in browser, login, get redirected with code
+ * Set SESSION_ENCRYPTION_KEY in .env.local to save the tokens to an
+ * encrypted session in .sessions/
  */
 
 import { createServer } from 'http';
+import { join } from 'path';
 import { URL } from 'url';
-
-const VA_AUTH_URL = 'https://sandbox-api.va.gov/oauth2/veteran-verification/v1/authorization';
-const VA_TOKEN_URL = 'https://sandbox-api.va.gov/oauth2/veteran-verification/v1/token';
-const VA_API_BASE = 'https://sandbox-api.va.gov/services/veteran_verification/v2';
+import { escapeHtml } from '../lib/html';
+import { VaVerificationClient } from '../lib/va/client';
+import { authorizationParams, OAuthStateStore, type PendingLogin } from '../lib/va/oauth';
+import { mapVaDataToProfile, type VaProfileData } from '../lib/va/profile-mapper';
+import { FileSessionStore, parseEncryptionKey } from '../lib/va/session-store';
 
 const CLIENT_ID = process.env.VA_CLIENT_ID!;
 const CLIENT_SECRET = process.env.VA_CLIENT_SECRET!;
 const REDIRECT_URI = process.env.VA_REDIRECT_URI || 'http://127.0.0.1:8080/oauth/callback';
+const SESSION_KEY = process.env.SESSION_ENCRYPTION_KEY;
 const PORT = 8080;
 
-const SCOPES = [
-  'profile',
-  'openid',
-  'offline_access',
-  'service_history.read',
-  'veteran_status.read',
-  'disability_rating.read'
-].join(' ');
-
-/**
- * Build the authorization URL for user to login
- */
-function buildAuthUrl(): string {
-  const params = new URLSearchParams({
-    client_id: CLIENT_ID,
-    redirect_uri: REDIRECT_URI,
-    response_type: 'code',
-    scope: SCOPES,
-    state: 'poc-test-' + Date.now(),
-  });
-
-  return `${VA_AUTH_URL}?${params.toString()}`;
-}
-
-/**
- * Exchange authorization code for access token
- */
-async function exchangeCodeForToken(code: string): Promise<any> {
-  const credentials = Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64');
-
-  const response = await fetch(VA_TOKEN_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Authorization': `Basic ${credentials}`,
-    },
-    body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: REDIRECT_URI,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Token exchange failed: ${response.status} - ${error}`);
-  }
-
-  return response.json();
-}
-
-/**
- * Get veteran status
- */
-async function getVeteranStatus(token: string): Promise<any> {
-  const response = await fetch(`${VA_API_BASE}/status`, {
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Status API failed: ${response.status} - ${error}`);
-  }
-
-  return response.json();
-}
+const client = new VaVerificationClient({
+  clientId: CLIENT_ID,
+  clientSecret: CLIENT_SECRET,
+  redirectUri: REDIRECT_URI,
+});
 
-/**
- * Get service history
- */
-async function getServiceHistory(token: string): Promise<any> {
-  const response = await fetch(`${VA_API_BASE}/service_history`, {
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Service History API failed: ${response.status} - ${error}`);
-  }
-
-  return response.json();
-}
+const logins = new OAuthStateStore();
 
 /**
- * Get disability rating
+ * Build the authorization URL for user to login
  */
-async function getDisabilityRating(token: string): Promise<any> {
-  const response = await fetch(`${VA_API_BASE}/disability_rating`, {
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Disability Rating API failed: ${response.status} - ${error}`);
-  }
-
-  return response.json();
+function buildAuthUrl(login: PendingLogin): string {
+  return client.getAuthorizationUrl(login.state, authorizationParams(login));
 }
 
 /**
- * Start local server to handle OAuth callback
+ * Start local server to handle OAuth callback. Only a callback carrying
+ * a state we issued is accepted.
  */
-async function startCallbackServer(): Promise<string> {
+async function startCallbackServer(): Promise<{ code: string; login: PendingLogin }> {
   return new Promise((resolve, reject) => {
     const server = createServer(async (req, res) => {
-      console.log('Incoming request:', req.url);
       const url = new URL(req.url!, `http://localhost:${PORT}`);
+      console.log('Incoming request:', url.pathname);
 
       if (url.pathname.startsWith('/oauth/callback')) {
+        const login = logins.consume(url.searchParams.get('state'));
+        if (!login) {
+          res.writeHead(400, { 'Content-Type': 'text/html' });
+          res.end('<h1>Error</h1><p>Invalid or expired login. Please start again.</p>');
+          return;
+        }
+
         const code = url.searchParams.get('code');
         const error = url.searchParams.get('error');
 
         if (error) {
           res.writeHead(400, { 'Content-Type': 'text/html' });
-          res.end(`<h1>Error</h1><p>${error}</p>`);
+          res.end(`<h1>Error</h1><p>${escapeHtml(error)}</p>`);
           server.close();
           reject(new Error(error));
           return;
@@ -154,7 +74,7 @@ async function startCallbackServer(): Promise<string> {
             <p>You can close this window. Check the terminal for results.</p>
           `);
           server.close();
-          resolve(code);
+          resolve({ code, login });
         }
       }
     });
@@ -183,7 +103,7 @@ async function main() {
   }
 
   // Step 1: Show auth URL
-  const authUrl = buildAuthUrl();
+  const authUrl = buildAuthUrl(logins.issue());
   console.log('1. Open this URL in your browser to login:\n');
   console.log(authUrl);
   console.log('\n   Use test credentials from:');
@@ -191,30 +111,37 @@ async function main() {
 
   // Step 2: Wait for callback
   console.log('2. Waiting for OAuth callback...\n');
-  const code = await startCallbackServer();
+  const { code, login } = await startCallbackServer();
   console.log('   ✓ Received authorization code\n');
 
   // Step 3: Exchange code for token
   console.log('3. Exchanging code for access token...');
-  const tokenData = await exchangeCodeForToken(code);
-  console.log('   ✓ Got access token (expires in', tokenData.expires_in, 'seconds)\n');
+  const tokens = await client.exchangeCode(code, { code_verifier: login.codeVerifier });
+  const expiresIn = Math.round((tokens.expiresAt - Date.now()) / 1000);
+  console.log('   ✓ Got access token (expires in', expiresIn, 'seconds)\n');
+
+  if (SESSION_KEY) {
+    const sessions = new FileSessionStore(join(process.cwd(), '.sessions'), parseEncryptionKey(SESSION_KEY));
+    const sessionId = await sessions.create(tokens);
+    console.log('   ✓ Saved encrypted session', sessionId.slice(0, 8) + '…\n');
+  }
 
   // Step 4: Make API calls
-  const token = tokenData.access_token;
-
   console.log('4. Fetching veteran data...\n');
 
   try {
     console.log('--- Veteran Status ---');
-    const status = await getVeteranStatus(token);
+    const status = await client.getVeteranStatus();
     console.log(JSON.stringify(status, null, 2));
   } catch (e: any) {
     console.log('Status error:', e.message);
   }
 
+  const vaData: VaProfileData = {};
+
   try {
     console.log('\n--- Service History ---');
-    const history = await getServiceHistory(token);
+    const history = vaData.serviceHistory = await client.getServiceHistory();
     console.log(JSON.stringify(history, null, 2));
   } catch (e: any) {
     console.log('Service history error:', e.message);
@@ -222,12 +149,16 @@ async function main() {
 
   try {
     console.log('\n--- Disability Rating ---');
-    const rating = await getDisabilityRating(token);
+    const rating = vaData.disabilityRating = await client.getDisabilityRating();
     console.log(JSON.stringify(rating, null, 2));
   } catch (e: any) {
     console.log('Disability rating error:', e.message);
   }
 
+  console.log('\n--- Mapped VeteranProfile ---');
+  const mapped = mapVaDataToProfile(vaData, { zipCode: '78701' });
+  console.log(JSON.stringify(mapped, null, 2));
+
   console.log('\n✓ POC Complete');
 }
 
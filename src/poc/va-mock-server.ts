@@ -0,0 +1,170 @@
+/**
+ * Local mock of the VA Veteran Verification API
+ *
+ * Serves the token endpoint and the status, service history and
+ * disability rating endpoints with sandbox-like data, so
+ * VaVerificationClient can be exercised without VA credentials.
+ *
+ * Run: npm run poc:va-mock
+ * Then point the client at http://127.0.0.1:8090 (see MOCK_URLS).
+ */
+
+import { createServer, type Server } from 'http';
+import { pathToFileURL } from 'url';
+import type {
+  VaDisabilityRating,
+  VaServiceHistory,
+  VaTokenResponse,
+  VaVeteranStatus,
+} from '../lib/va/types';
+
+export interface VaMockOptions {
+  port?: number;                 // Default 8090; 0 picks a free port (see server.address())
+  // Answer this many API requests with the given status before succeeding,
+  // to exercise retries (e.g. { status: 503, count: 2 })
+  failFirst?: { status: number; count: number; retryAfter?: number };
+  expiresIn?: number;            // Access token lifetime in seconds
+}
+
+export const mockVeteranStatus: VaVeteranStatus = {
+  data: {
+    id: '1012667145V762142',
+    type: 'veteran_status_confirmations',
+    attributes: { veteran_status: 'confirmed' },
+  },
+};
+
+export const mockServiceHistory: VaServiceHistory = {
+  data: [
+    {
+      id: '12312AB',
+      type: 'service-history-episodes',
+      attributes: {
+        first_name: 'Tamara',
+        last_name: 'Ellis',
+        branch_of_service: 'Army',
+        start_date: '2002-02-02',
+        end_date: '2008-12-01',
+        pay_grade: 'E-5',
+        discharge_status: 'honorable',
+        separation_reason: 'SUFFICIENT SERVICE FOR RETIREMENT',
+        deployments: [
+          { start_date: '2003-03-01', end_date: '2004-02-28', location: 'IRQ' },
+        ],
+      },
+    },
+  ],
+};
+
+export const mockDisabilityRating: VaDisabilityRating = {
+  data: {
+    id: '0',
+    type: 'disability-rating',
+    attributes: {
+      combined_disability_rating: 70,
+      combined_effective_date: '2018-03-27',
+      legal_effective_date: '2018-03-27',
+      individual_ratings: [
+        {
+          decision: 'Service Connected',
+          effective_date: '2018-03-27',
+          rating_percentage: 50,
+          diagnostic_type_name: 'PTSD',
+        },
+        {
+          decision: 'Service Connected',
+          effective_date: '2018-03-27',
+          rating_percentage: 40,
+          diagnostic_type_name: 'Knee condition',
+        },
+      ],
+    },
+  },
+};
+
+export const MOCK_URLS = (port = 8090) => ({
+  authUrl: `http://127.0.0.1:${port}/oauth2/veteran-verification/v1/authorization`,
+  tokenUrl: `http://127.0.0.1:${port}/oauth2/veteran-verification/v1/token`,
+  apiBase: `http://127.0.0.1:${port}/services/veteran_verification/v2`,
+});
+
+/**
+ * Start the mock server. Resolves once it's listening.
+ */
+export function startVaMockServer(options: VaMockOptions = {}): Promise<Server> {
+  const { port = 8090, failFirst, expiresIn = 3600 } = options;
+  let failuresLeft = failFirst?.count ?? 0;
+  let tokenCounter = 0;
+  const validTokens = new Set<string>();
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url!, `http://127.0.0.1:${port}`);
+    const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname.endsWith('/token') && req.method === 'POST') {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const params = new URLSearchParams(raw);
+        const grant = params.get('grant_type');
+        if (grant !== 'authorization_code' && grant !== 'refresh_token') {
+          send(400, { error: 'unsupported_grant_type' });
+          return;
+        }
+        const accessToken = `mock-access-${++tokenCounter}`;
+        validTokens.add(accessToken);
+        const token: VaTokenResponse = {
+          access_token: accessToken,
+          token_type: 'Bearer',
+          expires_in: expiresIn,
+          refresh_token: `mock-refresh-${tokenCounter}`,
+          scope: 'profile openid offline_access service_history.read veteran_status.read disability_rating.read',
+        };
+        send(200, token);
+      });
+      return;
+    }
+
+    const bodies: Record<string, unknown> = {
+      '/status': mockVeteranStatus,
+      '/service_history': mockServiceHistory,
+      '/disability_rating': mockDisabilityRating,
+    };
+    const endpoint = Object.keys(bodies).find(path => url.pathname.endsWith(path));
+    if (!endpoint) {
+      send(404, { errors: [{ title: 'Not found' }] });
+      return;
+    }
+
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+    if (!token || !validTokens.has(token)) {
+      send(401, { errors: [{ title: 'Invalid token' }] });
+      return;
+    }
+
+    if (failFirst && failuresLeft > 0) {
+      failuresLeft--;
+      const headers: Record<string, string> = failFirst.retryAfter !== undefined
+        ? { 'Retry-After': String(failFirst.retryAfter) }
+        : {};
+      send(failFirst.status, { errors: [{ title: 'Mock failure' }] }, headers);
+      return;
+    }
+
+    send(200, bodies[endpoint]);
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => resolve(server));
+  });
+}
+
+// Run standalone: npm run poc:va-mock
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startVaMockServer().then(() => {
+    console.log('VA mock server listening:', MOCK_URLS());
+  });
+}